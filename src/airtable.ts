@@ -0,0 +1,262 @@
+import {
+  AirtableAuthError,
+  type AirtableErrorBase,
+  AirtableNetworkError,
+  AirtableNotFoundError,
+  AirtablePermissionError,
+  AirtableRateLimitError,
+  AirtableResponseError,
+} from './errors.js';
+import { createHttpClient, type HttpClient } from './http.js';
+import type { Logger } from './logger.js';
+import { validateOverrideTables } from './overrides.js';
+import { readSnapshot } from './snapshot.js';
+import type {
+  AirtableBase,
+  AirtableTable,
+  AirtableView,
+  BaseList,
+  BaseSchema,
+  BaseTables,
+  GeneratorConfig,
+  ParsedConfig,
+} from './types.js';
+
+const toApiError = async (response: Response, base?: AirtableErrorBase): Promise<Error> => {
+  const options = { base, status: response.status };
+  switch (response.status) {
+    case 401:
+      return new AirtableAuthError(options);
+    case 403:
+      return new AirtablePermissionError(options);
+    case 404:
+      return new AirtableNotFoundError(options);
+    case 429:
+      return new AirtableRateLimitError(options);
+    default:
+      return new AirtableResponseError(`${response.status} ${await response.text()}`, options);
+  }
+};
+
+export type FetchBaseSchemaOptions = {
+  // Used in error messages.
+  baseName?: string;
+  // Airtable only returns `visibleFieldIds` for grid views when asked to.
+  includeVisibleFieldIds?: boolean;
+};
+
+export const fetchBaseSchema = async (
+  baseId: string,
+  client: HttpClient,
+  options: FetchBaseSchemaOptions = {},
+): Promise<AirtableTable[]> => {
+  const base = { baseId, baseName: options.baseName };
+  const query = options.includeVisibleFieldIds ? '?include=visibleFieldIds' : '';
+  let response: Response;
+  try {
+    response = await client.request(`/v0/meta/bases/${baseId}/tables${query}`);
+  } catch (error) {
+    throw error instanceof AirtableNetworkError
+      ? new AirtableNetworkError(error.detail, { base, cause: error })
+      : error;
+  }
+
+  if (!response.ok) {
+    throw await toApiError(response, base);
+  }
+
+  let data: BaseSchema;
+  try {
+    data = (await response.json()) as BaseSchema;
+  } catch (error) {
+    throw new AirtableResponseError('body is not valid JSON.', { base, status: response.status, cause: error });
+  }
+  if (!Array.isArray(data?.tables)) {
+    throw new AirtableResponseError('missing tables.', { base, status: response.status });
+  }
+
+  return data.tables;
+};
+
+// The bases endpoint pages with an `offset` token until every base the key can see has been listed.
+export const listBases = async (client: HttpClient): Promise<AirtableBase[]> => {
+  const bases: AirtableBase[] = [];
+  let offset: string | undefined;
+  do {
+    const query = offset ? `?offset=${encodeURIComponent(offset)}` : '';
+    const response = await client.request(`/v0/meta/bases${query}`);
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+    let data: BaseList;
+    try {
+      data = (await response.json()) as BaseList;
+    } catch (error) {
+      throw new AirtableResponseError('body is not valid JSON.', { status: response.status, cause: error });
+    }
+    if (!Array.isArray(data?.bases)) {
+      throw new AirtableResponseError('missing bases.', { status: response.status });
+    }
+    bases.push(...data.bases);
+    offset = data.offset;
+  } while (offset);
+  return bases;
+};
+
+export const requireApiKey = (config: ParsedConfig): string => {
+  if (!config.apiKey) {
+    throw new Error('Missing api key. Set api_key, api_key_env, or AIRTABLE_API_KEY in the environment.');
+  }
+  return config.apiKey;
+};
+
+export const createApiClient = (config: ParsedConfig, logger?: Logger): HttpClient =>
+  createHttpClient({
+    apiKey: requireApiKey(config),
+    apiUrl: config.apiUrl,
+    timeoutSeconds: config.requestTimeout,
+    maxRetries: config.maxRetries,
+    logger,
+  });
+
+const loadBaseTables = async (
+  config: ParsedConfig,
+  baseConfig: GeneratorConfig,
+  getClient: () => HttpClient,
+  logger?: Logger,
+): Promise<AirtableTable[]> => {
+  if (config.snapshotDir) {
+    logger?.debug(`Reading snapshot for ${baseConfig.baseName} (${baseConfig.baseId}) from ${config.snapshotDir}...`);
+    return readSnapshot(config.snapshotDir, baseConfig);
+  }
+  logger?.debug(`Fetching schema for ${baseConfig.baseName} (${baseConfig.baseId})...`);
+  return fetchBaseSchema(baseConfig.baseId, getClient(), {
+    baseName: baseConfig.baseName,
+    includeVisibleFieldIds: config.emitViews,
+  });
+};
+
+const resolveTableIds = (tables: AirtableTable[], idsOrNames?: string[]): string[] | undefined => {
+  if (!idsOrNames || idsOrNames.length === 0) {
+    return undefined;
+  }
+
+  const resolved: string[] = [];
+  for (const token of idsOrNames) {
+    const match = tables.find((table) => table.id === token || table.name === token);
+    if (!match) {
+      throw new Error(`Table "${token}" not found in base schema.`);
+    }
+    resolved.push(match.id);
+  }
+
+  return Array.from(new Set(resolved));
+};
+
+const filterTablesById = (tables: AirtableTable[], tableIds?: string[]): AirtableTable[] => {
+  if (!tableIds || tableIds.length === 0) {
+    return tables;
+  }
+
+  const tableIdSet = new Set(tableIds);
+  return tables.filter((table) => tableIdSet.has(table.id));
+};
+
+const filterBaseSchemaByView = (tables: AirtableTable[], viewIds?: string[], emitViews = false): AirtableTable[] => {
+  if (!viewIds || viewIds.length === 0) {
+    return tables;
+  }
+
+  const findViewInBaseSchema = (viewId: string) => {
+    for (const table of tables) {
+      const view = table.views.find((candidate) => candidate.id === viewId);
+      if (view) {
+        return { table, view };
+      }
+    }
+    return null;
+  };
+
+  const matchedTableIds = new Set<string>();
+  const viewToTableMap = new Map<string, { table: AirtableTable; view: AirtableView }>();
+
+  for (const viewId of viewIds) {
+    const result = findViewInBaseSchema(viewId);
+    if (!result) {
+      throw new Error(`View "${viewId}" not found in any table. Please check the view ID is correct.`);
+    }
+    viewToTableMap.set(viewId, result);
+    matchedTableIds.add(result.table.id);
+  }
+
+  const filteredTables: AirtableTable[] = [];
+  for (const table of tables) {
+    if (!matchedTableIds.has(table.id)) {
+      continue;
+    }
+
+    const matchingViews = viewIds
+      .map((viewId) => viewToTableMap.get(viewId))
+      .filter((result): result is { table: AirtableTable; view: AirtableView } => Boolean(result))
+      .filter((result) => result.table.id === table.id)
+      .map((result) => result.view);
+
+    // With emit_views each view carries its own field list, so the table keeps every field and only the listed views.
+    if (emitViews) {
+      const listedViewIds = new Set(matchingViews.map((view) => view.id));
+      filteredTables.push({ ...table, views: table.views.filter((view) => listedViewIds.has(view.id)) });
+      continue;
+    }
+
+    const gridViewsWithVisibleFields = matchingViews.filter(
+      (view) => view.type === 'grid' && view.visibleFieldIds && view.visibleFieldIds.length > 0,
+    );
+
+    let filteredTable = table;
+    if (gridViewsWithVisibleFields.length > 0) {
+      const allVisibleFieldIds = new Set<string>();
+      for (const view of gridViewsWithVisibleFields) {
+        for (const fieldId of view.visibleFieldIds ?? []) {
+          allVisibleFieldIds.add(fieldId);
+        }
+      }
+
+      filteredTable = {
+        ...table,
+        fields: table.fields.filter((field) => allVisibleFieldIds.has(field.id)),
+      };
+    }
+
+    filteredTables.push(filteredTable);
+  }
+
+  return filteredTables;
+};
+
+export const loadTables = async (config: ParsedConfig, logger?: Logger): Promise<BaseTables[]> => {
+  const bases: BaseTables[] = [];
+  let client: HttpClient | undefined;
+  const getClient = (): HttpClient => {
+    client ??= createApiClient(config, logger);
+    return client;
+  };
+  for (const baseConfig of config.bases) {
+    const tables = await loadBaseTables(config, baseConfig, getClient, logger);
+    validateOverrideTables(baseConfig, tables);
+    const resolvedTableIds = resolveTableIds(tables, baseConfig.tableIds);
+    const scopedTables = filterTablesById(tables, resolvedTableIds);
+    bases.push({
+      base: baseConfig,
+      tables: filterBaseSchemaByView(scopedTables, baseConfig.viewIds, config.emitViews),
+    });
+  }
+  return bases;
+};
+
+export const scopeTables = (tables: AirtableTable[], idsOrNames?: string[]): AirtableTable[] => {
+  if (!idsOrNames || idsOrNames.length === 0) {
+    return tables;
+  }
+  const tokens = new Set(idsOrNames);
+  return tables.filter((table) => tokens.has(table.id) || tokens.has(table.name));
+};
@@ -0,0 +1,661 @@
+#!/usr/bin/env node
+import { createHash } from 'node:crypto';
+import { resolve } from 'node:path';
+import { createInterface } from 'node:readline/promises';
+import { Command } from 'commander';
+import { createApiClient, fetchBaseSchema, loadTables, scopeTables } from './airtable.js';
+import { emitJson, formatJson, getPackageVersion } from './cli-utils.js';
+import { clearConfigCache, loadConfigFromOptions, loadConfigSource } from './config.js';
+import {
+  type BaseDiff,
+  collectIdentifiers,
+  type DiffReport,
+  diffTables,
+  formatDiffReport,
+  type TableDiff,
+  type TableIdentifiers,
+} from './diff.js';
+import { asInnerSpec } from './emitters/shared.js';
+import { renderZodSpec } from './emitters/zod.js';
+import { type AirtableErrorCode, isAirtableApiError } from './errors.js';
+import { getSelectMode, zodSpecForAirtableType } from './fields.js';
+import {
+  buildTableModels,
+  checkOutput,
+  type GenerateOptions,
+  generate,
+  getOutputPath,
+  type StaleBase,
+} from './generate.js';
+import { createHttpClient, DEFAULT_API_URL, type HttpClient } from './http.js';
+import { CONFIG_FORMATS, type InitResult, runInit } from './init.js';
+import { formatInspectReport, type InspectReport, inspectBases } from './inspect.js';
+import { createLogger } from './logger.js';
+import { scopeOverrides } from './overrides.js';
+import { readSnapshot, writeSnapshot } from './snapshot.js';
+import type {
+  AirtableField,
+  AirtableTable,
+  BaseTables,
+  CliOptions,
+  DateMode,
+  GeneratorConfig,
+  ParsedConfig,
+} from './types.js';
+import { createWatchRun, runWatchLoop } from './watch.js';
+
+const defaultOptions: CliOptions = {
+  config: undefined,
+  configFile: undefined,
+  out: undefined,
+  outDir: undefined,
+  fromSnapshot: undefined,
+  format: undefined,
+  target: undefined,
+  color: true,
+  json: false,
+  plain: false,
+  quiet: false,
+  verbose: false,
+  links: true,
+  recordSchema: true,
+  writeSchema: true,
+  byIdSchema: undefined,
+  dryRun: false,
+  check: false,
+  rename: false,
+  deprecatedAliases: false,
+};
+
+const EXIT_BREAKING_CHANGES = 3;
+const EXIT_STALE_OUTPUT = 4;
+const API_ERROR_EXIT_CODES: Record<AirtableErrorCode, number> = {
+  auth: 5,
+  permission: 6,
+  not_found: 7,
+  rate_limited: 8,
+  network: 9,
+  invalid_response: 10,
+};
+const DEFAULT_POLL_INTERVAL_SECONDS = 30;
+const MAX_POLL_BACKOFF_MS = 5 * 60 * 1000;
+
+let logger = createLogger(defaultOptions);
+
+type GenerateResult = {
+  outputPath: string;
+  bases: Array<{ name: string; tableCount: number }>;
+  tableCount: number;
+  files?: string[];
+  removedFiles?: string[];
+  upToDate?: boolean;
+  stale?: StaleBase[];
+  diff?: string;
+};
+
+// Shared by `generate` and `watch`; callers add `write` and, when already loaded, `tables`.
+const getGenerateOptions = (options: CliOptions): GenerateOptions => ({
+  includeLinks: options.links,
+  includeRecordSchema: options.recordSchema,
+  includeWriteSchema: options.writeSchema,
+  includeByIdSchema: options.byIdSchema,
+  rename: options.rename,
+  deprecatedAliases: options.deprecatedAliases,
+  logger,
+});
+
+const generateTypes = async (options: CliOptions): Promise<GenerateResult> => {
+  const repoRoot = process.cwd();
+  const config = await loadConfigFromOptions(repoRoot, options);
+
+  logger.info(`Generating ${config.target} definitions for ${config.bases.length} Airtable bases...`);
+
+  const generated = await generate(config, {
+    ...getGenerateOptions(options),
+    write: !options.dryRun && !options.check,
+  });
+  const { outputPath, bases, files } = generated;
+  for (const diagnostic of generated.diagnostics) {
+    logger.warn(diagnostic.message);
+  }
+  const result: GenerateResult = {
+    outputPath,
+    bases: bases.map(({ base, tables }) => ({ name: base.baseName, tableCount: tables.length })),
+    tableCount: bases.reduce((total, { tables }) => total + tables.length, 0),
+    ...(files.length > 1 ? { files: files.map((file) => file.path) } : {}),
+  };
+
+  if (options.check) {
+    const { upToDate, stale, staleFiles, staleLockfile, diff } = checkOutput(generated, repoRoot);
+    if (upToDate) {
+      logger.info(`Airtable types are up to date: ${outputPath}`);
+    } else {
+      logger.warn(`Airtable types are out of date: ${outputPath}`);
+      for (const base of stale) {
+        logger.warn(`${base.name}: ${base.tables.map((table) => table.name).join(', ')}`);
+      }
+      for (const path of staleFiles) {
+        logger.warn(`Stale generated file: ${path}`);
+      }
+      if (staleLockfile) {
+        logger.warn(`Stale lockfile: ${staleLockfile}`);
+      }
+    }
+
+    return { ...result, upToDate, stale, diff };
+  }
+
+  if (!options.dryRun && generated.cleanDirs.length > 0) {
+    for (const path of generated.removedFiles) {
+      logger.debug(`Removed stale generated file: ${path}`);
+    }
+    result.removedFiles = generated.removedFiles;
+  }
+
+  const suffix = options.dryRun ? ' (dry-run)' : '';
+  logger.info(`Generated Airtable types: ${outputPath}${suffix}`);
+
+  return result;
+};
+
+type PullResult = {
+  snapshotDir: string;
+  bases: Array<{ name: string; baseId: string; path: string; tableCount: number }>;
+};
+
+const pullSnapshots = async (options: CliOptions, dir?: string): Promise<PullResult> => {
+  const repoRoot = process.cwd();
+  const config = await loadConfigFromOptions(repoRoot, options);
+  const snapshotDir = dir ? resolve(repoRoot, dir) : config.snapshotDir;
+  if (!snapshotDir) {
+    throw new Error('Missing snapshot directory. Set snapshot_dir in the config or pass --dir.');
+  }
+  const client = createApiClient(config, logger);
+
+  logger.info(`Pulling schema snapshots for ${config.bases.length} Airtable bases...`);
+
+  const bases: PullResult['bases'] = [];
+  for (const baseConfig of config.bases) {
+    logger.debug(`Fetching schema for ${baseConfig.baseName} (${baseConfig.baseId})...`);
+    const tables = await fetchBaseSchema(baseConfig.baseId, client, {
+      baseName: baseConfig.baseName,
+      includeVisibleFieldIds: config.emitViews,
+    });
+    const path = writeSnapshot(snapshotDir, baseConfig, tables);
+    logger.debug(`Wrote ${path}`);
+    bases.push({ name: baseConfig.baseName, baseId: baseConfig.baseId, path, tableCount: tables.length });
+  }
+
+  logger.info(`Pulled schema snapshots: ${snapshotDir}`);
+
+  return { snapshotDir, bases };
+};
+
+type InitCommandOptions = {
+  configFormat?: string;
+  apiKeyEnv: string;
+  base?: string[];
+  table?: string[];
+  force: boolean;
+  yes: boolean;
+};
+
+const initConfig = async (options: CliOptions, commandOptions: InitCommandOptions): Promise<InitResult> => {
+  const apiKey = process.env[commandOptions.apiKeyEnv];
+  if (!apiKey) {
+    throw new Error(`Missing api key. Set ${commandOptions.apiKeyEnv} in the environment or pass --api-key-env.`);
+  }
+  const client = createHttpClient({ apiKey, apiUrl: process.env.AIRTABLE_API_URL ?? DEFAULT_API_URL, logger });
+  // Prompts go to stderr so --json output on stdout stays parseable.
+  const prompt =
+    process.stdin.isTTY && !commandOptions.yes
+      ? createInterface({ input: process.stdin, output: process.stderr })
+      : undefined;
+  try {
+    const result = await runInit(
+      {
+        cwd: process.cwd(),
+        path: options.config ?? options.configFile,
+        format: commandOptions.configFormat,
+        apiKeyEnv: commandOptions.apiKeyEnv,
+        bases: commandOptions.base,
+        tables: commandOptions.table,
+        force: commandOptions.force,
+      },
+      { client, ask: prompt ? (question) => prompt.question(question) : undefined, logger },
+    );
+    logger.info(`Wrote ${result.configPath} with ${result.bases.length} bases.`);
+    return result;
+  } finally {
+    prompt?.close();
+  }
+};
+
+// Configured bases match by name or ID; live, any base ID the key can read works without being configured.
+const resolveInspectBases = (config: ParsedConfig, live: boolean, token?: string): GeneratorConfig[] => {
+  if (!token) {
+    return config.bases;
+  }
+  const match = config.bases.find((base) => base.baseName === token || base.baseId === token);
+  if (match) {
+    return [match];
+  }
+  if (live && token.startsWith('app')) {
+    return [{ baseName: token, baseId: token }];
+  }
+  throw new Error(`Base "${token}" is not configured.`);
+};
+
+const inspectSchema = async (options: CliOptions, baseToken?: string, tableToken?: string): Promise<InspectReport> => {
+  const repoRoot = process.cwd();
+  const config = await loadConfigFromOptions(repoRoot, options);
+  // Inspect shows the live schema unless asked otherwise; snapshot_dir alone may point at stale snapshots.
+  const snapshotDir = options.fromSnapshot ? config.snapshotDir : undefined;
+  let client: HttpClient | undefined;
+
+  const bases: BaseTables[] = [];
+  for (const baseConfig of resolveInspectBases(config, !snapshotDir, baseToken)) {
+    let tables: AirtableTable[];
+    if (snapshotDir) {
+      logger.debug(`Reading snapshot for ${baseConfig.baseName} (${baseConfig.baseId}) from ${snapshotDir}...`);
+      tables = readSnapshot(snapshotDir, baseConfig);
+    } else {
+      logger.debug(`Fetching schema for ${baseConfig.baseName} (${baseConfig.baseId})...`);
+      client ??= createApiClient(config, logger);
+      tables = await fetchBaseSchema(baseConfig.baseId, client, {
+        baseName: baseConfig.baseName,
+        includeVisibleFieldIds: true,
+      });
+    }
+    if (tableToken) {
+      tables = tables.filter((table) => table.id === tableToken || table.name === tableToken);
+      if (tables.length === 0) {
+        throw new Error(`Table "${tableToken}" not found in base "${baseConfig.baseName}" (${baseConfig.baseId}).`);
+      }
+    }
+    bases.push({ base: baseConfig, tables });
+  }
+
+  const { report, diagnostics } = inspectBases(config, bases);
+  for (const diagnostic of diagnostics) {
+    logger.debug(diagnostic.message);
+  }
+  return report;
+};
+
+const LIVE_SOURCE = 'live';
+
+const fieldTypeRenderer =
+  (config: GeneratorConfig, dates: DateMode) =>
+  (field: AirtableField, table: AirtableTable): string | null => {
+    const spec = zodSpecForAirtableType(field, { selectMode: getSelectMode(config, table), dates, warn: logger.warn });
+    return spec ? renderZodSpec(asInnerSpec(spec)) : null;
+  };
+
+const tableIdentifiers = (config: ParsedConfig, base: GeneratorConfig, tables: AirtableTable[]): TableIdentifiers =>
+  collectIdentifiers(buildTableModels(config, [{ base: scopeOverrides(base, tables), tables }]).models);
+
+const diffBaseTables = (
+  config: ParsedConfig,
+  base: GeneratorConfig,
+  before: AirtableTable[],
+  after: AirtableTable[],
+): TableDiff[] =>
+  diffTables(before, after, {
+    renderFieldType: fieldTypeRenderer(base, config.dates),
+    before: tableIdentifiers(config, base, before),
+    after: tableIdentifiers(config, base, after),
+  });
+
+const diffSchemas = async (options: CliOptions, before?: string, after?: string): Promise<DiffReport> => {
+  const repoRoot = process.cwd();
+  const config = await loadConfigFromOptions(repoRoot, options);
+  const beforeSource = before ?? config.snapshotDir;
+  const afterSource = after ?? LIVE_SOURCE;
+  if (!beforeSource) {
+    throw new Error('Missing schema source to compare. Pass a snapshot directory or set snapshot_dir in the config.');
+  }
+
+  let client: HttpClient | undefined;
+  const loadSource = async (source: string, baseConfig: GeneratorConfig): Promise<AirtableTable[]> => {
+    if (source === LIVE_SOURCE) {
+      logger.debug(`Fetching schema for ${baseConfig.baseName} (${baseConfig.baseId})...`);
+      client ??= createApiClient(config, logger);
+      return fetchBaseSchema(baseConfig.baseId, client, {
+        baseName: baseConfig.baseName,
+        includeVisibleFieldIds: config.emitViews,
+      });
+    }
+    return readSnapshot(resolve(repoRoot, source), baseConfig);
+  };
+
+  logger.info(`Comparing ${beforeSource} with ${afterSource} for ${config.bases.length} Airtable bases...`);
+
+  const bases: BaseDiff[] = [];
+  let changeCount = 0;
+  for (const baseConfig of config.bases) {
+    const beforeTables = scopeTables(await loadSource(beforeSource, baseConfig), baseConfig.tableIds);
+    const afterTables = scopeTables(await loadSource(afterSource, baseConfig), baseConfig.tableIds);
+    const tables = diffBaseTables(config, baseConfig, beforeTables, afterTables);
+    const changes = tables.flatMap((table) => table.changes);
+    changeCount += changes.length;
+    bases.push({
+      name: baseConfig.baseName,
+      baseId: baseConfig.baseId,
+      breakingCount: changes.filter((change) => change.breaking).length,
+      tables,
+    });
+  }
+
+  return {
+    breaking: bases.some((base) => base.breakingCount > 0),
+    changeCount,
+    bases,
+  };
+};
+
+const hashTables = (bases: BaseTables[]): string => {
+  const hash = createHash('sha256');
+  for (const { base, tables } of bases) {
+    hash.update(JSON.stringify({ baseId: base.baseId, tables }));
+  }
+  return hash.digest('hex');
+};
+
+const watchTypes = async (options: CliOptions, intervalSeconds?: number): Promise<void> => {
+  const repoRoot = process.cwd();
+  const initialConfig = await loadConfigFromOptions(repoRoot, options);
+  const interval = intervalSeconds ?? initialConfig.pollInterval ?? DEFAULT_POLL_INTERVAL_SECONDS;
+  if (!Number.isFinite(interval) || interval <= 0) {
+    throw new Error(`Invalid poll interval "${String(intervalSeconds)}". Use a positive number of seconds.`);
+  }
+
+  const run = createWatchRun<{ config: ParsedConfig; bases: BaseTables[] }>({
+    load: async (reason) => {
+      if (reason === 'config') {
+        clearConfigCache();
+        logger.info('Config changed, reloading...');
+      }
+      const config = reason === 'initial' ? initialConfig : await loadConfigFromOptions(repoRoot, options);
+      // Polling snapshot_dir would never see Airtable edits, so watch the live schema unless --from-snapshot is passed.
+      const bases = await loadTables(options.fromSnapshot ? config : { ...config, snapshotDir: undefined }, logger);
+      return { state: { config, bases }, hash: hashTables(bases) };
+    },
+    apply: async ({ config, bases }, previousState) => {
+      const previousBases = previousState?.bases ?? [];
+      for (const { base, tables } of bases) {
+        const previous = previousBases.find((candidate) => candidate.base.baseId === base.baseId);
+        if (!previous) {
+          continue;
+        }
+        const diffs = diffBaseTables(config, base, previous.tables, tables);
+        const changes = diffs.flatMap((table) => table.changes);
+        if (changes.length === 0) {
+          continue;
+        }
+        const breaking = changes.filter((change) => change.breaking).length;
+        logger.info(
+          `${base.baseName}: ${changes.length} changes (${breaking} breaking) in ${diffs.map((table) => table.name).join(', ')}`,
+        );
+        for (const table of diffs) {
+          for (const change of table.changes) {
+            logger.debug(`${table.name}: ${change.message}`);
+          }
+        }
+      }
+
+      const outputPath = getOutputPath(config);
+      const { written, removedFiles, diagnostics } = await generate(config, {
+        ...getGenerateOptions(options),
+        tables: bases,
+        write: true,
+      });
+      for (const diagnostic of diagnostics) {
+        logger.warn(diagnostic.message);
+      }
+      if (written.length === 0 && removedFiles.length === 0) {
+        logger.debug(`Airtable types are up to date: ${outputPath}`);
+        return;
+      }
+      logger.info(`Generated Airtable types: ${outputPath}`);
+    },
+    onUnchanged: () => logger.debug('No schema changes.'),
+  });
+
+  logger.info(`Watching ${initialConfig.bases.length} Airtable bases every ${interval}s (Ctrl+C to stop)...`);
+
+  await runWatchLoop({
+    intervalMs: interval * 1000,
+    maxBackoffMs: MAX_POLL_BACKOFF_MS,
+    configPath: initialConfig.configPath,
+    run,
+    onError: (error, retryInMs) => {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`${message} (retrying in ${Math.round(retryInMs / 1000)}s)`);
+    },
+    onConfigWatchError: (error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Stopped watching ${initialConfig.configPath} for changes: ${message}. Polling continues.`);
+    },
+  });
+
+  logger.info('Stopped watching.');
+};
+
+const validateConfig = async (options: CliOptions): Promise<void> => {
+  const repoRoot = process.cwd();
+  await loadConfigFromOptions(repoRoot, options);
+};
+
+const printConfig = async (options: CliOptions): Promise<void> => {
+  const source = await loadConfigSource(process.cwd(), options);
+  const config = source.config;
+  const sanitized = {
+    ...config,
+    api_key: 'api_key' in config && config.api_key ? '[redacted]' : undefined,
+  };
+  if (options.json) {
+    emitJson(sanitized, options);
+    return;
+  }
+  const output = formatJson(sanitized, options);
+  process.stdout.write(`${output}\n`);
+};
+
+const runGenerate = async (options: CliOptions): Promise<void> => {
+  const result = await generateTypes(options);
+  if (options.json) {
+    emitJson(result, options);
+  } else if (result.diff) {
+    process.stdout.write(result.diff);
+  }
+  if (result.upToDate === false) {
+    process.exitCode = EXIT_STALE_OUTPUT;
+  }
+};
+
+const reportError = (error: unknown, options: CliOptions): number => {
+  const message = error instanceof Error ? error.message : String(error);
+  if (!isAirtableApiError(error)) {
+    const code = (error as { code?: string }).code;
+    logger.error(message);
+    return typeof code === 'string' && code.startsWith('commander.') ? 2 : 1;
+  }
+  const exitCode = API_ERROR_EXIT_CODES[error.code];
+  if (options.json) {
+    emitJson({ error: { ...error.toJSON(), exitCode } }, options);
+  }
+  logger.error(`${message}\n${error.hint}`);
+  return exitCode;
+};
+
+const main = async () => {
+  const program = new Command();
+  program
+    .name('airtypes')
+    .description('Generate Zod schemas and TypeScript types from Airtable bases.')
+    .option('-c, --config <path>', 'Path to config TOML')
+    .option('--config-file <path>', 'Alias for --config')
+    .option('-o, --out <path>', 'Override output path')
+    .option('--out-dir <path>', 'Write one module per table into this directory (split output)')
+    .option(
+      '--target <target>',
+      'Validation library to emit for: zod, valibot, arktype, typescript (defaults to target or zod)',
+    )
+    .option('--format <formats...>', 'Output formats to emit: zod, jsonschema (defaults to formats or zod)')
+    .option('--from-snapshot <dir>', 'Generate from schema snapshots instead of the Airtable API')
+    .option('--json', 'Emit machine-readable output to stdout', false)
+    .option('--plain', 'Emit compact JSON (no whitespace)', false)
+    .option('--no-color', 'Disable color output')
+    .option('-q, --quiet', 'Suppress non-error output', false)
+    .option('-v, --verbose', 'Verbose output', false)
+    .option('--no-links', 'Do not emit links metadata')
+    .option('--no-record-schema', 'Do not emit recordSchema helpers')
+    .option('--no-write-schema', 'Do not emit create/update schemas')
+    .option(
+      '--by-id-schema',
+      'Also emit field-ID keyed schemas and field conversion helpers (defaults to by_id_schema)',
+    )
+    .option('-n, --dry-run', 'Do not write output file', false)
+    .option('--check', 'Fail if the output file is out of date (does not write)', false)
+    .option('--rename', 'Accept identifiers that changed since the lockfile was written', false)
+    .option('--deprecated-aliases', 'With --rename, emit @deprecated aliases for the renamed names for one run', false)
+    .showHelpAfterError()
+    .showSuggestionAfterError()
+    .version(getPackageVersion(), '-V, --version', 'Output the version number');
+
+  program
+    .command('generate')
+    .description('Generate types from the config file')
+    .action(async () => {
+      const opts = program.opts<CliOptions>();
+      const resolved = { ...defaultOptions, ...opts };
+      logger = createLogger(resolved);
+      await runGenerate(resolved);
+    });
+
+  program
+    .command('init')
+    .description('Create a config file from the bases and tables the API key can access')
+    .option('--config-format <format>', `Config file format: ${CONFIG_FORMATS.join(', ')} (defaults to toml)`)
+    .option('--api-key-env <name>', 'Environment variable holding the API key', 'AIRTABLE_API_KEY')
+    .option('--base <bases...>', 'Bases to include, by ID or name (skips the base prompt)')
+    .option('--table <tables...>', 'Tables to include, by ID or name (skips the table prompts)')
+    .option('-y, --yes', 'Include every accessible base and table without prompting', false)
+    .option('-f, --force', 'Overwrite an existing config file', false)
+    .action(async (commandOptions: InitCommandOptions) => {
+      const opts = program.opts<CliOptions>();
+      const resolved = { ...defaultOptions, ...opts };
+      logger = createLogger(resolved);
+      const result = await initConfig(resolved, commandOptions);
+      if (resolved.json) {
+        emitJson(result, resolved);
+      }
+    });
+
+  program
+    .command('pull')
+    .description('Write schema snapshots for each configured base')
+    .option('-d, --dir <path>', 'Snapshot directory (defaults to snapshot_dir)')
+    .action(async (commandOptions: { dir?: string }) => {
+      const opts = program.opts<CliOptions>();
+      const resolved = { ...defaultOptions, ...opts };
+      logger = createLogger(resolved);
+      const result = await pullSnapshots(resolved, commandOptions.dir);
+      if (resolved.json) {
+        emitJson(result, resolved);
+      }
+    });
+
+  program
+    .command('diff')
+    .description(`Compare two schema sources (snapshot directories or "${LIVE_SOURCE}")`)
+    .argument('[before]', 'Snapshot directory to compare from (defaults to snapshot_dir)')
+    .argument('[after]', `Snapshot directory to compare to (defaults to "${LIVE_SOURCE}")`)
+    .action(async (before?: string, after?: string) => {
+      const opts = program.opts<CliOptions>();
+      const resolved = { ...defaultOptions, ...opts };
+      logger = createLogger(resolved);
+      const report = await diffSchemas(resolved, before, after);
+      if (resolved.json) {
+        emitJson(report, resolved);
+      } else {
+        process.stdout.write(`${formatDiffReport(report)}\n`);
+      }
+      if (report.breaking) {
+        process.exitCode = EXIT_BREAKING_CHANGES;
+      }
+    });
+
+  program
+    .command('inspect')
+    .description('Print the tables, fields and views of a base with the names and types airtypes would generate')
+    .argument('[base]', 'Base name or ID (defaults to every configured base)')
+    .argument('[table]', 'Table name or ID')
+    .action(async (base?: string, table?: string) => {
+      const opts = program.opts<CliOptions>();
+      const resolved = { ...defaultOptions, ...opts };
+      logger = createLogger(resolved);
+      const report = await inspectSchema(resolved, base, table);
+      if (resolved.json) {
+        emitJson(report, resolved);
+      } else {
+        process.stdout.write(`${formatInspectReport(report)}\n`);
+      }
+    });
+
+  program
+    .command('watch')
+    .description('Poll Airtable and regenerate types when the schema changes')
+    .option('-i, --interval <seconds>', 'Poll interval in seconds (defaults to poll_interval or 30)', Number)
+    .action(async (commandOptions: { interval?: number }) => {
+      const opts = program.opts<CliOptions>();
+      const resolved = { ...defaultOptions, ...opts };
+      logger = createLogger(resolved);
+      await watchTypes(resolved, commandOptions.interval);
+    });
+
+  program
+    .command('validate')
+    .description('Validate config file and exit')
+    .action(async () => {
+      const opts = program.opts<CliOptions>();
+      const resolved = { ...defaultOptions, ...opts };
+      logger = createLogger(resolved);
+      await validateConfig(resolved);
+      if (resolved.json) {
+        emitJson({ valid: true }, resolved);
+        return;
+      }
+      logger.info('Config is valid.');
+    });
+
+  program
+    .command('print-config')
+    .description('Print effective config (secrets redacted)')
+    .action(async () => {
+      const opts = program.opts<CliOptions>();
+      const resolved = { ...defaultOptions, ...opts };
+      logger = createLogger(resolved);
+      await printConfig(resolved);
+    });
+
+  program.action(async () => {
+    const opts = program.opts<CliOptions>();
+    const resolved = { ...defaultOptions, ...opts };
+    logger = createLogger(resolved);
+    await runGenerate(resolved);
+  });
+
+  try {
+    await program.parseAsync(process.argv);
+  } catch (error) {
+    process.exit(reportError(error, { ...defaultOptions, ...program.opts<CliOptions>() }));
+  }
+};
+
+main().catch((error) => {
+  const message = error instanceof Error ? error.message : String(error);
+  logger.error(message);
+  process.exit(1);
+});
@@ -2,7 +2,41 @@ import { dirname, resolve } from 'node:path';
 import toml from '@iarna/toml';
 import { cosmiconfig } from 'cosmiconfig';
 import { z } from 'zod';
-import type { GeneratorConfig, ParsedConfig } from './types.js';
+import { DEFAULT_API_URL } from './http.js';
+import { LOCKFILE_NAME } from './lockfile.js';
+import { loadPlugins } from './plugins.js';
+import type {
+  AirtypesPlugin,
+  EmitterTarget,
+  GeneratorConfig,
+  OutputFormat,
+  ParsedConfig,
+  TableOverride,
+} from './types.js';
+
+const SelectModeSchema = z.enum(['string', 'strict', 'open']);
+const OutputFormatSchema = z.enum(['zod', 'jsonschema']);
+const TargetSchema = z.enum(['zod', 'valibot', 'arktype', 'typescript']);
+
+const FieldOverrideSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    schema: z.string().trim().min(1).optional(),
+    imports: z.array(z.string().trim().min(1)).optional(),
+    nullable: z.boolean().optional(),
+    exclude: z.boolean().optional(),
+  })
+  .strict();
+
+const TableOverrideSchema = z
+  .object({
+    type_name: z.string().trim().min(1).optional(),
+    const_name: z.string().trim().min(1).optional(),
+    include_fields: z.array(z.string().trim().min(1)).optional(),
+    exclude_fields: z.array(z.string().trim().min(1)).optional(),
+    fields: z.record(z.string(), FieldOverrideSchema).optional(),
+  })
+  .strict();
 
 const BaseConfigSchema = z.object({
   name: z.string().trim().min(1),
@@ -11,12 +45,38 @@ const BaseConfigSchema = z.object({
   view_ids: z.array(z.string().trim().min(1)).optional(),
   required_fields: z.record(z.string(), z.array(z.string().trim().min(1))).optional(),
   named_views: z.record(z.string(), z.record(z.string(), z.string())).optional(),
+  select_mode: SelectModeSchema.optional(),
+  select_modes: z.record(z.string(), SelectModeSchema).optional(),
+  overrides: z.record(z.string(), TableOverrideSchema).optional(),
 });
 
+// Plugin objects only come from JS configs; TOML and JSON configs list module paths instead.
+const PluginSchema = z.custom<AirtypesPlugin>(
+  (value) => typeof value === 'object' && value !== null && !Array.isArray(value),
+  'Expected a plugin object or module path',
+);
+
 const ConfigSchema = z.object({
   api_key: z.string().trim().min(1).optional(),
   api_key_env: z.string().trim().min(1).optional(),
   output: z.string().trim().min(1).optional(),
+  output_mode: z.enum(['single', 'split']).optional(),
+  out_dir: z.string().trim().min(1).optional(),
+  formats: z.array(OutputFormatSchema).min(1).optional(),
+  jsonschema_dir: z.string().trim().min(1).optional(),
+  target: TargetSchema.optional(),
+  dates: z.enum(['string', 'iso', 'date']).optional(),
+  snapshot_dir: z.string().trim().min(1).optional(),
+  poll_interval: z.number().int().positive().optional(),
+  client: z.boolean().optional(),
+  formula_builder: z.boolean().optional(),
+  by_id_schema: z.boolean().optional(),
+  emit_views: z.boolean().optional(),
+  plugins: z.array(z.union([z.string().trim().min(1), PluginSchema])).optional(),
+  lockfile: z.union([z.string().trim().min(1), z.boolean()]).optional(),
+  api_url: z.url().optional(),
+  request_timeout: z.number().positive().optional(),
+  max_retries: z.number().int().nonnegative().optional(),
   bases: z.array(BaseConfigSchema).min(1).optional(),
 });
 
@@ -69,18 +129,26 @@ export type ConfigSource = {
   configDir: string;
 };
 
-export const loadConfigSource = async (options: { config?: string; configFile?: string }): Promise<ConfigSource> => {
+export const clearConfigCache = (): void => {
+  explorer.clearCaches();
+};
+
+// Explicit paths resolve against `repoRoot`, which is also where the search for a config starts.
+export const loadConfigSource = async (
+  repoRoot: string,
+  options: { config?: string; configFile?: string },
+): Promise<ConfigSource> => {
   const explicitPath =
     options.config ?? options.configFile ?? process.env.AIRTYPES_CONFIG ?? process.env.AIRTYPE_CONFIG;
 
-  const result = explicitPath ? await explorer.load(explicitPath) : await explorer.search(process.cwd());
+  const result = explicitPath ? await explorer.load(resolve(repoRoot, explicitPath)) : await explorer.search(repoRoot);
 
   if (!result || result.isEmpty) {
     throw new Error('Config not found. Provide --config or add an airtypes config file.');
   }
 
   const config = ConfigSchema.parse(stripSymbolKeys(result.config));
-  const configDir = result.filepath ? dirname(result.filepath) : process.cwd();
+  const configDir = result.filepath ? dirname(result.filepath) : repoRoot;
 
   return {
     config,
@@ -89,17 +157,68 @@ export const loadConfigSource = async (options: { config?: string; configFile?:
   };
 };
 
+const toTableOverrides = (
+  overrides: Record<string, z.infer<typeof TableOverrideSchema>>,
+): Record<string, TableOverride> =>
+  Object.fromEntries(
+    Object.entries(overrides).map(([table, override]) => [
+      table,
+      {
+        typeName: override.type_name,
+        constName: override.const_name,
+        includeFields: override.include_fields,
+        excludeFields: override.exclude_fields,
+        fields: override.fields,
+      },
+    ]),
+  );
+
+const parseFormats = (formats: string[]): OutputFormat[] => {
+  const parsed: OutputFormat[] = [];
+  for (const format of formats) {
+    const result = OutputFormatSchema.safeParse(format);
+    if (!result.success) {
+      throw new Error(`Unknown format "${format}". Use ${OutputFormatSchema.options.join(' or ')}.`);
+    }
+    if (!parsed.includes(result.data)) {
+      parsed.push(result.data);
+    }
+  }
+  return parsed;
+};
+
+const parseTarget = (target: string): EmitterTarget => {
+  const result = TargetSchema.safeParse(target);
+  if (!result.success) {
+    throw new Error(`Unknown target "${target}". Use ${TargetSchema.options.join(', ')}.`);
+  }
+  return result.data;
+};
+
 export const loadConfigFromOptions = async (
   repoRoot: string,
-  options: { config?: string; configFile?: string; out?: string },
+  options: {
+    config?: string;
+    configFile?: string;
+    out?: string;
+    outDir?: string;
+    fromSnapshot?: string;
+    format?: string[];
+    target?: string;
+  },
 ): Promise<ParsedConfig> => {
-  const source = await loadConfigSource(options);
+  const source = await loadConfigSource(repoRoot, options);
   const config = source.config;
+  const snapshotDir = options.fromSnapshot
+    ? resolve(repoRoot, options.fromSnapshot)
+    : config.snapshot_dir
+      ? resolve(source.configDir, config.snapshot_dir)
+      : undefined;
   const apiKey =
     config.api_key ??
     (config.api_key_env ? process.env[config.api_key_env] : undefined) ??
     process.env.AIRTABLE_API_KEY;
-  if (!apiKey) {
+  if (!apiKey && !snapshotDir) {
     throw new Error('Missing api key. Set api_key, api_key_env, or AIRTABLE_API_KEY in the environment.');
   }
 
@@ -112,6 +231,9 @@ export const loadConfigFromOptions = async (
           viewIds: base.view_ids && base.view_ids.length > 0 ? base.view_ids : undefined,
           requiredFields: base.required_fields ?? undefined,
           namedViews: base.named_views ?? undefined,
+          selectMode: base.select_mode ?? undefined,
+          selectModes: base.select_modes ?? undefined,
+          overrides: base.overrides ? toTableOverrides(base.overrides) : undefined,
         }))
       : null;
 
@@ -124,9 +246,47 @@ export const loadConfigFromOptions = async (
     ? resolve(repoRoot, options.out)
     : resolve(outputBase, config.output ?? 'airtable-types.ts');
 
+  const outputMode = options.outDir ? 'split' : (config.output_mode ?? 'single');
+  const outDir = options.outDir
+    ? resolve(repoRoot, options.outDir)
+    : resolve(source.configDir, config.out_dir ?? 'airtable-types');
+  const target = parseTarget(options.target ?? config.target ?? 'zod');
+  const formats = parseFormats(options.format ?? config.formats ?? ['zod']);
+  const jsonSchemaDir = config.jsonschema_dir
+    ? resolve(source.configDir, config.jsonschema_dir)
+    : outputMode === 'split'
+      ? outDir
+      : resolve(dirname(output), 'airtable-schemas');
+
   return {
     apiKey,
+    apiUrl: config.api_url ?? process.env.AIRTABLE_API_URL ?? DEFAULT_API_URL,
+    requestTimeout: config.request_timeout,
+    maxRetries: config.max_retries,
     output,
+    outputMode,
+    outDir,
+    target,
+    formats,
+    jsonSchemaDir,
+    dates: config.dates ?? 'string',
+    snapshotDir,
+    pollInterval: config.poll_interval,
+    client: config.client ?? false,
+    formulaBuilder: config.formula_builder ?? false,
+    byIdSchema: config.by_id_schema ?? false,
+    emitViews: config.emit_views ?? false,
+    configPath: source.filepath,
+    // Opt-in: `true` uses the default name next to the config.
+    lockfile: config.lockfile
+      ? resolve(source.configDir, config.lockfile === true ? LOCKFILE_NAME : config.lockfile)
+      : undefined,
+    plugins: await loadPlugins(config.plugins ?? [], source.configDir),
     bases,
   };
 };
+
+// Relative paths passed here resolve against `cwd`, as they would for the CLI.
+export const loadConfig = (
+  options: Parameters<typeof loadConfigFromOptions>[1] & { cwd?: string } = {},
+): Promise<ParsedConfig> => loadConfigFromOptions(options.cwd ?? process.cwd(), options);
@@ -0,0 +1,292 @@
+import type { AirtableField, AirtableTable, AirtableView, TableModel } from './types.js';
+
+export type SchemaChangeKind =
+  | 'table-added'
+  | 'table-removed'
+  | 'table-renamed'
+  | 'field-added'
+  | 'field-removed'
+  | 'field-renamed'
+  | 'field-type-changed'
+  | 'field-options-changed'
+  | 'identifier-changed'
+  | 'view-added'
+  | 'view-removed';
+
+export type SchemaChange = {
+  kind: SchemaChangeKind;
+  breaking: boolean;
+  message: string;
+  fieldId?: string;
+  viewId?: string;
+  before?: string;
+  after?: string;
+};
+
+export type TableDiff = {
+  id: string;
+  name: string;
+  changes: SchemaChange[];
+};
+
+export type BaseDiff = {
+  name: string;
+  baseId: string;
+  breakingCount: number;
+  tables: TableDiff[];
+};
+
+export type DiffReport = {
+  breaking: boolean;
+  changeCount: number;
+  bases: BaseDiff[];
+};
+
+// Generated names per table ID, as `buildTableModels` produces them after overrides, collisions and lockfile pins.
+export type TableIdentifiers = Map<string, { typeName: string; tableConstName: string; fields: Map<string, string> }>;
+
+export type DiffOptions = {
+  renderFieldType: (field: AirtableField, table: AirtableTable) => string | null;
+  before: TableIdentifiers;
+  after: TableIdentifiers;
+};
+
+export const collectIdentifiers = (models: TableModel[]): TableIdentifiers =>
+  new Map(
+    models.map((model) => [
+      model.table.id,
+      {
+        typeName: model.typeName,
+        tableConstName: model.tableConstName,
+        fields: new Map(model.fields.map((field) => [field.id, field.jsName])),
+      },
+    ]),
+  );
+
+const fieldIdentifier = (identifiers: TableIdentifiers, tableId: string, fieldId: string): string | undefined =>
+  identifiers.get(tableId)?.fields.get(fieldId);
+
+const tableIdentifier = (identifiers: TableIdentifiers, tableId: string): string | undefined => {
+  const names = identifiers.get(tableId);
+  return names ? `${names.typeName}, ${names.tableConstName}` : undefined;
+};
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const diffFields = (before: AirtableTable, after: AirtableTable, options: DiffOptions): SchemaChange[] => {
+  const changes: SchemaChange[] = [];
+  const afterById = new Map(after.fields.map((field) => [field.id, field]));
+  const beforeIds = new Set(before.fields.map((field) => field.id));
+
+  for (const previous of before.fields) {
+    const next = afterById.get(previous.id);
+    if (!next) {
+      changes.push({
+        kind: 'field-removed',
+        breaking: true,
+        fieldId: previous.id,
+        message: `removed field "${previous.name}" (${previous.id})`,
+        before: previous.name,
+      });
+      continue;
+    }
+
+    const previousIdentifier = fieldIdentifier(options.before, before.id, previous.id);
+    const nextIdentifier = fieldIdentifier(options.after, after.id, next.id);
+    if (previous.name !== next.name) {
+      changes.push({
+        kind: 'field-renamed',
+        breaking: previousIdentifier !== nextIdentifier,
+        fieldId: next.id,
+        message: `renamed field "${previous.name}" to "${next.name}" (${next.id})`,
+        before: previous.name,
+        after: next.name,
+      });
+    } else if (previousIdentifier && nextIdentifier && previousIdentifier !== nextIdentifier) {
+      // Another field's rename can shift a deduplicated default identifier onto this one.
+      changes.push({
+        kind: 'identifier-changed',
+        breaking: true,
+        fieldId: next.id,
+        message: `generated name of "${next.name}" changes from ${previousIdentifier} to ${nextIdentifier} (${next.id})`,
+        before: previousIdentifier,
+        after: nextIdentifier,
+      });
+    }
+
+    const previousType = options.renderFieldType(previous, before);
+    const nextType = options.renderFieldType(next, after);
+    if (previous.type !== next.type) {
+      changes.push({
+        kind: 'field-type-changed',
+        breaking: previousType !== nextType,
+        fieldId: next.id,
+        message: `changed type of "${next.name}" from ${previous.type} to ${next.type} (${next.id})`,
+        before: previous.type,
+        after: next.type,
+      });
+    } else if (stableStringify(previous.options ?? null) !== stableStringify(next.options ?? null)) {
+      changes.push({
+        kind: 'field-options-changed',
+        breaking: previousType !== nextType,
+        fieldId: next.id,
+        message: `changed options of "${next.name}" (${next.id})`,
+        before: previousType ?? undefined,
+        after: nextType ?? undefined,
+      });
+    }
+  }
+
+  for (const next of after.fields) {
+    if (beforeIds.has(next.id)) {
+      continue;
+    }
+    changes.push({
+      kind: 'field-added',
+      breaking: false,
+      fieldId: next.id,
+      message: `added field "${next.name}" (${next.id}, ${next.type})`,
+      after: next.name,
+    });
+  }
+
+  return changes;
+};
+
+const diffViews = (before: AirtableView[], after: AirtableView[]): SchemaChange[] => {
+  const changes: SchemaChange[] = [];
+  const afterIds = new Set(after.map((view) => view.id));
+  const beforeIds = new Set(before.map((view) => view.id));
+
+  for (const view of before) {
+    if (!afterIds.has(view.id)) {
+      changes.push({
+        kind: 'view-removed',
+        breaking: true,
+        viewId: view.id,
+        message: `removed view "${view.name}" (${view.id})`,
+        before: view.name,
+      });
+    }
+  }
+  for (const view of after) {
+    if (!beforeIds.has(view.id)) {
+      changes.push({
+        kind: 'view-added',
+        breaking: false,
+        viewId: view.id,
+        message: `added view "${view.name}" (${view.id})`,
+        after: view.name,
+      });
+    }
+  }
+
+  return changes;
+};
+
+export const diffTables = (before: AirtableTable[], after: AirtableTable[], options: DiffOptions): TableDiff[] => {
+  const diffs: TableDiff[] = [];
+  const afterById = new Map(after.map((table) => [table.id, table]));
+  const beforeIds = new Set(before.map((table) => table.id));
+
+  for (const previous of before) {
+    const next = afterById.get(previous.id);
+    if (!next) {
+      diffs.push({
+        id: previous.id,
+        name: previous.name,
+        changes: [
+          {
+            kind: 'table-removed',
+            breaking: true,
+            message: `removed table "${previous.name}" (${previous.id})`,
+            before: previous.name,
+          },
+        ],
+      });
+      continue;
+    }
+
+    const changes: SchemaChange[] = [];
+    const previousIdentifier = tableIdentifier(options.before, previous.id);
+    const nextIdentifier = tableIdentifier(options.after, next.id);
+    if (previous.name !== next.name) {
+      changes.push({
+        kind: 'table-renamed',
+        breaking: previousIdentifier !== nextIdentifier,
+        message: `renamed table "${previous.name}" to "${next.name}"`,
+        before: previous.name,
+        after: next.name,
+      });
+    } else if (previousIdentifier && nextIdentifier && previousIdentifier !== nextIdentifier) {
+      changes.push({
+        kind: 'identifier-changed',
+        breaking: true,
+        message: `generated names of "${next.name}" change from ${previousIdentifier} to ${nextIdentifier}`,
+        before: previousIdentifier,
+        after: nextIdentifier,
+      });
+    }
+    changes.push(...diffFields(previous, next, options));
+    changes.push(...diffViews(previous.views ?? [], next.views ?? []));
+
+    if (changes.length > 0) {
+      diffs.push({ id: next.id, name: next.name, changes });
+    }
+  }
+
+  for (const next of after) {
+    if (beforeIds.has(next.id)) {
+      continue;
+    }
+    diffs.push({
+      id: next.id,
+      name: next.name,
+      changes: [
+        {
+          kind: 'table-added',
+          breaking: false,
+          message: `added table "${next.name}" (${next.id})`,
+          after: next.name,
+        },
+      ],
+    });
+  }
+
+  return diffs;
+};
+
+export const formatDiffReport = (report: DiffReport): string => {
+  if (report.changeCount === 0) {
+    return 'No schema changes.';
+  }
+
+  const lines: string[] = [];
+  for (const base of report.bases) {
+    const count = base.tables.reduce((total, table) => total + table.changes.length, 0);
+    if (count === 0) {
+      lines.push(`${base.name} (${base.baseId}): no changes`);
+      continue;
+    }
+    lines.push(`${base.name} (${base.baseId}): ${count} changes, ${base.breakingCount} breaking`);
+    for (const table of base.tables) {
+      lines.push(`  ${table.name} (${table.id})`);
+      for (const change of table.changes) {
+        lines.push(`    ${change.breaking ? '[breaking] ' : ''}${change.message}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+};
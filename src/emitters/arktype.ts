@@ -0,0 +1,280 @@
+import type { Emitter, GeneratedField, RenderOptions, TableModel, ZodSpec } from '../types.js';
+import {
+  asInnerSpec,
+  escapeString,
+  keyFieldsById,
+  renderClientLines,
+  renderDeprecatedAliases,
+  renderFieldDoc,
+  renderFieldKeyHelperLines,
+  renderFormulaBuilderLines,
+  renderRecordTypeLines,
+  renderSortTypeLines,
+  renderTableClient,
+  renderTableDefinition,
+  renderTableDefinitionTypeLines,
+  renderTableDoc,
+  renderUnsupportedEntry,
+} from './shared.js';
+
+const ISO_DATE_PATTERN = '/^\\d{4}-\\d{2}-\\d{2}$/';
+
+// Optionality lives on the object key (`'name?'`), so specs render without it.
+const renderArkTypeSpec = (spec: ZodSpec): string => {
+  const expr = renderArkTypeExpression(spec);
+  const value = spec.errorable ? `${expr}.or(AirtableFormulaErrorSchema)` : expr;
+  return spec.nullable ? `${value}.or(type.null)` : value;
+};
+
+const renderArkTypeExpression = (spec: ZodSpec): string => {
+  switch (spec.kind) {
+    case 'string':
+      return 'type.string';
+    case 'number':
+      return 'type.number';
+    case 'boolean':
+      return 'type.boolean';
+    case 'record':
+      return "type('Record<string, unknown>')";
+    case 'object':
+      return "type({ id: 'string' })";
+    case 'attachment':
+      return 'AirtableAttachmentSchema';
+    case 'collaborator':
+      return 'AirtableCollaboratorSchema';
+    case 'attachmentWrite':
+      return 'AirtableAttachmentWriteSchema';
+    case 'collaboratorWrite':
+      return 'AirtableCollaboratorWriteSchema';
+    case 'barcode':
+      return 'AirtableBarcodeSchema';
+    case 'button':
+      return 'AirtableButtonSchema';
+    case 'aiText':
+      return 'AirtableAiTextSchema';
+    case 'date':
+      return spec.coerce ? 'AirtableDateSchema' : `type(${ISO_DATE_PATTERN})`;
+    case 'dateTime':
+      return spec.coerce ? 'AirtableDateTimeSchema' : "type('string.date.iso')";
+    case 'dateWrite':
+      return 'AirtableDateWriteSchema';
+    case 'dateTimeWrite':
+      return 'AirtableDateTimeWriteSchema';
+    case 'enum': {
+      const values = `type.enumerated(${(spec.values ?? []).map((value) => `'${escapeString(value)}'`).join(', ')})`;
+      return spec.open ? `${values}.or(type.string.as<string & {}>())` : values;
+    }
+    case 'custom':
+      return spec.expression ?? 'type.unknown';
+    case 'array': {
+      const inner = spec.inner ? renderArkTypeSpec(asInnerSpec(spec.inner)) : 'type.unknown';
+      return `${inner}.array()`;
+    }
+    default:
+      return 'type.unknown';
+  }
+};
+
+const renderEntry = (field: GeneratedField, spec: ZodSpec | null): string => {
+  if (spec === null) {
+    return renderUnsupportedEntry(field);
+  }
+  const key = spec.optional ? `'${field.jsName}?'` : field.jsName;
+  return `${renderFieldDoc(field)}\n  ${key}: ${renderArkTypeSpec(spec)},`;
+};
+
+const renderTable = (model: TableModel, options: RenderOptions): string => {
+  const typeName = model.typeName;
+  const schemaName = `${typeName}Schema`;
+  const recordSchemaName = `${typeName}RecordSchema`;
+  const createSchemaName = `${typeName}CreateSchema`;
+  const updateSchemaName = `${typeName}UpdateSchema`;
+
+  const recordSchemaBlock = options.includeRecordSchema
+    ? `\n\nexport const ${recordSchemaName} = type({\n  '+': 'reject',\n  id: 'string',\n  fields: ${schemaName},\n});\n\nexport type ${typeName}Record = typeof ${recordSchemaName}.infer;`
+    : '';
+  const writeEntries = model.fields
+    .map((field) => (field.writeSpec ? renderEntry(field, field.writeSpec) : ''))
+    .join('');
+  const writeSchemaBlock = options.includeWriteSchema
+    ? `\n\nexport const ${createSchemaName} = type({\n  '+': 'reject',${writeEntries}\n});\n\nexport type ${typeName}Create = typeof ${createSchemaName}.inferIn;\n\nexport const ${updateSchemaName} = ${createSchemaName}.partial();\n\nexport type ${typeName}Update = typeof ${updateSchemaName}.inferIn;`
+    : '';
+
+  const byIdEntries = keyFieldsById(model.fields)
+    .map((field) => renderEntry(field, field.zodSpec))
+    .join('');
+  const byIdSchemaBlock = options.includeByIdSchema
+    ? `\n\nexport const ${typeName}ByIdSchema = type({\n  '+': 'reject',${byIdEntries}\n});\n\nexport type ${typeName}ById = typeof ${typeName}ByIdSchema.infer;`
+    : '';
+
+  const hasInputType = options.dates === 'date';
+  const inputTypeBlock = hasInputType ? `\n\nexport type ${typeName}Input = typeof ${schemaName}.inferIn;` : '';
+  const definitionTypeArgs = hasInputType ? `${typeName}, ${typeName}Input` : typeName;
+
+  const entries = model.fields.map((field) => renderEntry(field, field.zodSpec)).join('');
+  const definition = renderTableDefinition(
+    model,
+    options,
+    {
+      schema: schemaName,
+      recordSchema: options.includeRecordSchema ? recordSchemaName : undefined,
+      createSchema: options.includeWriteSchema ? createSchemaName : undefined,
+      updateSchema: options.includeWriteSchema ? updateSchemaName : undefined,
+    },
+    definitionTypeArgs,
+  );
+
+  const client = renderTableClient(
+    model,
+    options,
+    `(record) => parseRecord(${model.tableConstName}, record)`,
+    (schema) => `${schema}.assert(values)`,
+  );
+  const doc = renderTableDoc(model);
+
+  return `${doc}\nexport const ${schemaName} = type({\n  '+': 'reject',${entries}\n});\n\n${doc}\nexport type ${typeName} = typeof ${schemaName}.infer;${inputTypeBlock}${recordSchemaBlock}${writeSchemaBlock}${byIdSchemaBlock}${definition}${client}${renderDeprecatedAliases(model, options, true)}`;
+};
+
+const cellSchemaLines = [
+  'export const AirtableThumbnailSchema = type({',
+  "  url: 'string',",
+  "  width: 'number',",
+  "  height: 'number',",
+  '});',
+  '',
+  'export const AirtableAttachmentSchema = type({',
+  "  id: 'string',",
+  "  url: 'string',",
+  "  filename: 'string',",
+  "  size: 'number',",
+  "  type: 'string',",
+  "  'width?': 'number',",
+  "  'height?': 'number',",
+  "  'thumbnails?': {",
+  "    'small?': AirtableThumbnailSchema,",
+  "    'large?': AirtableThumbnailSchema,",
+  "    'full?': AirtableThumbnailSchema,",
+  '  },',
+  '});',
+  '',
+  'export type AirtableAttachment = typeof AirtableAttachmentSchema.infer;',
+  '',
+  'export const AirtableCollaboratorSchema = type({',
+  "  id: 'string',",
+  "  'email?': 'string',",
+  "  'name?': 'string',",
+  "  'permissionLevel?': 'string',",
+  "  'profilePicUrl?': 'string',",
+  '});',
+  '',
+  'export type AirtableCollaborator = typeof AirtableCollaboratorSchema.infer;',
+  '',
+  'export const AirtableBarcodeSchema = type({',
+  "  text: 'string',",
+  "  'type?': 'string',",
+  '});',
+  '',
+  'export type AirtableBarcode = typeof AirtableBarcodeSchema.infer;',
+  '',
+  'export const AirtableButtonSchema = type({',
+  "  label: 'string',",
+  "  url: 'string | null',",
+  '});',
+  '',
+  'export type AirtableButton = typeof AirtableButtonSchema.infer;',
+  '',
+  'export const AirtableAiTextSchema = type({',
+  "  state: \"'empty' | 'loading' | 'generated' | 'error'\",",
+  "  value: 'string | null',",
+  "  isStale: 'boolean',",
+  "  'errorType?': 'string',",
+  '});',
+  '',
+  'export type AirtableAiText = typeof AirtableAiTextSchema.infer;',
+  '',
+  'export const AirtableFormulaErrorSchema = type({',
+  "  error: 'string',",
+  '});',
+  '',
+  'export type AirtableFormulaError = typeof AirtableFormulaErrorSchema.infer;',
+  '',
+];
+
+const renderRuntime = (options: RenderOptions): string[] => {
+  const parseRecordLines = options.includeRecordSchema
+    ? [
+        'export function parseRecord<T extends Record<string, unknown>, TInput = unknown>(',
+        '  table: AirtableTableDefinition<T, TInput>,',
+        '  record: { id: string; fields: unknown },',
+        '): AirtableRecord<T> {',
+        '  return table.recordSchema.assert(record);',
+        '}',
+        '',
+      ]
+    : [];
+  const writeSchemaLines = options.includeWriteSchema
+    ? [
+        "export const AirtableAttachmentWriteSchema = type({ id: 'string' }).or({ url: 'string', 'filename?': 'string' });",
+        '',
+        "export const AirtableCollaboratorWriteSchema = type({ id: 'string' }).or({ email: 'string' });",
+        '',
+      ]
+    : [];
+  const dateSchemaLines =
+    options.dates === 'date'
+      ? [
+          `export const AirtableDateSchema = type(${ISO_DATE_PATTERN}).pipe((value) => new Date(value));`,
+          '',
+          "export const AirtableDateTimeSchema = type('string.date.iso.parse');",
+          '',
+          ...(options.includeWriteSchema
+            ? [
+                "export const AirtableDateWriteSchema = type('Date').pipe((value) => value.toISOString().slice(0, 10));",
+                '',
+                "export const AirtableDateTimeWriteSchema = type('Date').pipe((value) => value.toISOString());",
+                '',
+              ]
+            : []),
+        ]
+      : [];
+  const schemaMembers = [
+    '  schema: AirtableSchema<T, TInput>;',
+    ...(options.includeRecordSchema ? ['  recordSchema: AirtableSchema<AirtableRecord<T>>;'] : []),
+    ...(options.includeWriteSchema
+      ? [
+          '  createSchema: AirtableSchema<{ [K in keyof T]?: unknown }>;',
+          '  updateSchema: AirtableSchema<{ [K in keyof T]?: unknown }>;',
+        ]
+      : []),
+  ];
+
+  return [
+    ...cellSchemaLines,
+    ...writeSchemaLines,
+    ...dateSchemaLines,
+    ...renderRecordTypeLines(options),
+    'export type AirtableSchema<T, TInput = unknown> = {',
+    '  infer: T;',
+    '  inferIn: TInput;',
+    '  assert: (data: unknown) => T;',
+    '};',
+    '',
+    ...renderTableDefinitionTypeLines('<T extends Record<string, unknown>, TInput = unknown>', schemaMembers, options),
+    ...parseRecordLines,
+    ...renderFieldKeyHelperLines(options),
+    ...renderSortTypeLines(options),
+    ...renderFormulaBuilderLines(
+      options,
+      '<T extends Record<string, unknown>, TInput = unknown>',
+      'AirtableTableDefinition<T, TInput>',
+    ),
+    ...renderClientLines(options),
+  ];
+};
+
+export const arktypeEmitter: Emitter = {
+  target: 'arktype',
+  imports: ["import { type } from 'arktype';"],
+  renderRuntime,
+  renderTable,
+};
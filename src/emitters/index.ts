@@ -0,0 +1,14 @@
+import type { Emitter, EmitterTarget } from '../types.js';
+import { arktypeEmitter } from './arktype.js';
+import { typescriptEmitter } from './typescript.js';
+import { valibotEmitter } from './valibot.js';
+import { zodEmitter } from './zod.js';
+
+const emitters: Record<EmitterTarget, Emitter> = {
+  zod: zodEmitter,
+  valibot: valibotEmitter,
+  arktype: arktypeEmitter,
+  typescript: typescriptEmitter,
+};
+
+export const getEmitter = (target: EmitterTarget): Emitter => emitters[target];
@@ -0,0 +1,611 @@
+import { getSelectChoices } from '../fields.js';
+import { toChoicesConstName, toConstStem } from '../naming.js';
+import type { ChoiceSetMeta, GeneratedField, RenderOptions, TableModel, ZodSpec } from '../types.js';
+
+export type TableSchemaRefs = {
+  schema: string;
+  recordSchema?: string;
+  createSchema?: string;
+  updateSchema?: string;
+};
+
+// Escapes a value for a single-quoted literal; backslashes first so the escapes added after stay intact.
+export const escapeString = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+
+export const asInnerSpec = (spec: ZodSpec): ZodSpec => ({
+  ...spec,
+  optional: false,
+  inner: spec.inner ? asInnerSpec(spec.inner) : undefined,
+});
+
+export const renderOriginalNameComment = (field: GeneratedField): string =>
+  field.originalName !== field.jsName ? ` // Original field: "${field.originalName}"` : '';
+
+const toDocLines = (text: string | undefined): string[] => {
+  const lines = (text ?? '').split(/\r?\n/).map((line) => line.trimEnd());
+  while (lines.length > 0 && !lines[0]) {
+    lines.shift();
+  }
+  while (lines.length > 0 && !lines[lines.length - 1]) {
+    lines.pop();
+  }
+  return lines;
+};
+
+// Descriptions are free text from Airtable, so a `*/` inside them must not end the comment early.
+export const renderDocComment = (lines: string[], indent = ''): string =>
+  [
+    `${indent}/**`,
+    ...lines
+      .flatMap((line) => line.split(/\r?\n/))
+      .map((line) => line.trimEnd().replace(/\*\//g, '*\\/'))
+      .map((line) => (line ? `${indent} * ${line}` : `${indent} *`)),
+    `${indent} */`,
+  ].join('\n');
+
+export const renderFieldDoc = (field: GeneratedField): string => {
+  const description = toDocLines(field.description);
+  const choices =
+    field.type === 'singleSelect' || field.type === 'multipleSelects'
+      ? getSelectChoices(field).map((choice) => JSON.stringify(choice.name))
+      : [];
+  return `\n${renderDocComment(
+    [
+      ...description,
+      ...(description.length > 0 ? [''] : []),
+      `Airtable field ${JSON.stringify(field.originalName)} (${field.id}), type ${field.type}.`,
+      ...(choices.length > 0 ? [`Choices: ${choices.join(', ')}.`] : []),
+    ],
+    '  ',
+  )}`;
+};
+
+export const renderTableDoc = (model: TableModel): string => {
+  const description = toDocLines(model.table.description);
+  return renderDocComment([
+    ...description,
+    ...(description.length > 0 ? [''] : []),
+    `Airtable table ${JSON.stringify(model.table.name)} (${model.table.id}) in base ${JSON.stringify(model.base.baseName)}.`,
+  ]);
+};
+
+// `*ById` schemas reuse the entry renderers with the field ID as the property name; Airtable IDs are valid identifiers.
+export const keyFieldsById = (fields: GeneratedField[]): GeneratedField[] =>
+  fields.map((field) => ({ ...field, jsName: field.id }));
+
+export const renderUnsupportedEntry = (field: GeneratedField): string =>
+  `\n  // Unsupported field "${field.name}" of type ${field.type}`;
+
+const renderMappingEntry = (field: GeneratedField): string => {
+  if (field.zodSpec === null) {
+    return `\n    // Unsupported field "${field.name}": ${escapeString(field.id)}`;
+  }
+  return `\n    ${field.jsName}: '${escapeString(field.id)}',${renderOriginalNameComment(field)}`;
+};
+
+const renderChoicesBlock = ({ constName, choices }: ChoiceSetMeta): string => {
+  const entries = choices
+    .map((choice) => {
+      const color = choice.color ? `, color: '${escapeString(choice.color)}'` : '';
+      return `\n  '${escapeString(choice.name)}': { id: '${escapeString(choice.id)}', name: '${escapeString(choice.name)}'${color} },`;
+    })
+    .join('');
+  return `\n\nexport const ${constName} = {${entries}\n} as const;`;
+};
+
+const renderViewsBlock = ({ views, typeName }: TableModel): string => {
+  if (!views) {
+    return '';
+  }
+  const entries = views.views
+    .map(({ name, id, type, fields }) => {
+      const fieldList = fields ? `[${fields.map((field) => `'${field}'`).join(', ')}]` : 'null';
+      return `\n  '${escapeString(name)}': { id: '${escapeString(id)}', type: '${escapeString(type)}', fields: ${fieldList} },`;
+    })
+    .join('');
+  return `\n\nexport const ${views.constName} = {${entries}\n} as const;\n\nexport type ${typeName}ViewName = keyof typeof ${views.constName};\n\n/** Fields of a record fetched from view \`V\`; every field when Airtable did not report the visible ones. */\nexport type ${typeName}ViewFields<V extends ${typeName}ViewName> =\n  (typeof ${views.constName})[V]['fields'] extends ReadonlyArray<infer K> ? Pick<${typeName}, K & keyof ${typeName}> : ${typeName};`;
+};
+
+// Field-ID payload converters and formula references both need the current Airtable field names.
+const hasFieldNames = (options: RenderOptions): boolean => options.includeByIdSchema || options.includeFormulaBuilder;
+
+// The `*Table` definition and its view/choice constants are the same for every target.
+export const renderTableDefinition = (
+  model: TableModel,
+  options: RenderOptions,
+  schemas: TableSchemaRefs | null,
+  typeArgs: string,
+): string => {
+  const { base: config, table, requiredFields } = model;
+  const links = model.links
+    .map((link) => `\n    ${link.jsName}: { tableId: '${escapeString(link.linkedTableId)}' },`)
+    .join('');
+  const linksBlock = options.includeLinks && links ? `\n  links: {${links}\n  },` : '';
+  const fieldNames = model.fields
+    .filter((field) => field.zodSpec !== null)
+    .map((field) => `\n    ${field.jsName}: '${escapeString(field.originalName)}',`)
+    .join('');
+  const fieldNamesBlock = hasFieldNames(options) ? `\n  fieldNames: {${fieldNames}\n  },` : '';
+  const requiredFieldsBlock =
+    requiredFields.length > 0
+      ? `\n  requiredFields: [${requiredFields.map((field) => `'${escapeString(field)}'`).join(', ')}],`
+      : '';
+  const schemaFields = schemas
+    ? [
+        `\n  schema: ${schemas.schema},`,
+        schemas.recordSchema ? `\n  recordSchema: ${schemas.recordSchema},` : '',
+        schemas.createSchema ? `\n  createSchema: ${schemas.createSchema},` : '',
+        schemas.updateSchema ? `\n  updateSchema: ${schemas.updateSchema},` : '',
+      ].join('')
+    : '';
+
+  const namedViewsBlock = model.namedViews
+    ? `\n\nexport const ${model.namedViews.constName} = {${model.namedViews.views
+        .map(({ key, id }) => `\n  ${key}: '${escapeString(id)}',`)
+        .join('')}\n} as const;`
+    : '';
+  const choicesBlock = model.choiceSets.map(renderChoicesBlock).join('');
+
+  return `\n\n${renderTableDoc(model)}\nexport const ${model.tableConstName} = {\n  name: '${escapeString(
+    table.name,
+  )}',\n  baseId: '${escapeString(config.baseId)}',\n  tableId: '${escapeString(
+    table.id,
+  )}',\n  mappings: {${model.fields.map(renderMappingEntry).join('')}\n  },${fieldNamesBlock}${requiredFieldsBlock}${schemaFields}${linksBlock}\n} satisfies AirtableTableDefinition<${typeArgs}>;${namedViewsBlock}${renderViewsBlock(model)}${choicesBlock}`;
+};
+
+export const renderDeprecatedAliases = (model: TableModel, options: RenderOptions, hasSchemas: boolean): string => {
+  const { typeName: previousType, constName: previousConst } = model.aliases;
+  const blocks: string[] = [];
+  if (previousType) {
+    const typeSuffixes = [
+      '',
+      ...(options.includeRecordSchema ? ['Record'] : []),
+      ...(options.includeWriteSchema ? ['Create', 'Update'] : []),
+      ...(options.includeByIdSchema ? ['ById'] : []),
+      ...(hasSchemas && options.dates === 'date' ? ['Input'] : []),
+    ];
+    const schemaSuffixes = hasSchemas
+      ? typeSuffixes.filter((suffix) => suffix !== 'Input').map((suffix) => `${suffix}Schema`)
+      : [];
+    for (const suffix of typeSuffixes) {
+      blocks.push(
+        `/** @deprecated Renamed to {@link ${model.typeName}${suffix}}. */\nexport type ${previousType}${suffix} = ${model.typeName}${suffix};`,
+      );
+    }
+    for (const suffix of schemaSuffixes) {
+      blocks.push(
+        `/** @deprecated Renamed to {@link ${model.typeName}${suffix}}. */\nexport const ${previousType}${suffix} = ${model.typeName}${suffix};`,
+      );
+    }
+  }
+  if (previousType && options.includeClient) {
+    blocks.push(
+      `/** @deprecated Renamed to {@link create${model.typeName}Client}. */\nexport const create${previousType}Client = create${model.typeName}Client;`,
+    );
+  }
+  if (previousConst) {
+    blocks.push(
+      `/** @deprecated Renamed to {@link ${model.tableConstName}}. */\nexport const ${previousConst} = ${model.tableConstName};`,
+    );
+  }
+  // Views and choice consts are named after the table const and field names, so they move with either.
+  const renamedFields = model.aliases.fields ?? {};
+  const previousStem = toConstStem(previousConst ?? model.tableConstName);
+  const constAliases: Array<[string, string]> = [];
+  if (previousConst && model.namedViews) {
+    constAliases.push([`${previousStem}Views`, model.namedViews.constName]);
+  }
+  if (previousConst && model.views) {
+    constAliases.push([`${previousStem}AllViews`, model.views.constName]);
+  }
+  for (const { fieldId, constName } of model.choiceSets) {
+    const fieldName = renamedFields[fieldId] ?? model.fields.find((field) => field.id === fieldId)?.jsName;
+    if (fieldName !== undefined && (previousConst || renamedFields[fieldId])) {
+      constAliases.push([toChoicesConstName(previousStem, fieldName), constName]);
+    }
+  }
+  for (const [previous, current] of constAliases) {
+    if (previous !== current) {
+      blocks.push(`/** @deprecated Renamed to {@link ${current}}. */\nexport const ${previous} = ${current};`);
+    }
+  }
+  const renamedEntries = model.fields
+    .filter((field) => renamedFields[field.id])
+    .map((field) => `\n  ${renamedFields[field.id]}: '${field.jsName}',`);
+  if (renamedEntries.length > 0) {
+    blocks.push(
+      `/** @deprecated Previous property names of renamed fields, mapped to the current ones. */\nexport const ${toConstStem(model.tableConstName)}RenamedFields = {${renamedEntries.join('')}\n} as const;`,
+    );
+  }
+  return blocks.map((block) => `\n\n${block}`).join('');
+};
+
+export const renderRecordTypeLines = (options: RenderOptions): string[] =>
+  options.includeRecordSchema
+    ? ['export type AirtableRecord<T extends Record<string, unknown>> = {', '  id: string;', '  fields: T;', '};', '']
+    : [];
+
+export const renderTableDefinitionTypeLines = (typeParams: string, schemaMembers: string[], options: RenderOptions) => [
+  `export type AirtableTableDefinition${typeParams} = {`,
+  '  name: string;',
+  '  baseId: string;',
+  '  tableId: string;',
+  '  mappings: {',
+  '    [K in keyof T]: T[K] extends Array<unknown> ? string | string[] : string;',
+  '  };',
+  ...(hasFieldNames(options) ? ['  fieldNames: { [K in keyof T]: string };'] : []),
+  '  requiredFields?: Array<Extract<keyof T, string>>;',
+  ...schemaMembers,
+  ...(options.includeLinks ? ['  links?: Record<string, { tableId: string }>;'] : []),
+  '};',
+  '',
+];
+
+// Target-independent converters between raw Airtable `fields` payloads and jsName-keyed objects.
+export const renderFieldKeyHelperLines = (options: RenderOptions): string[] =>
+  options.includeByIdSchema
+    ? [
+        "export type AirtableFieldKeys = 'id' | 'name';",
+        '',
+        '/** Re-keys a raw `fields` payload, keyed by field ID or by field name, to the generated property names. */',
+        'export function fromAirtableFields<T extends Record<string, unknown>>(',
+        "  table: Pick<AirtableTableDefinition<T>, 'mappings' | 'fieldNames'>,",
+        '  fields: Record<string, unknown>,',
+        '): { [K in keyof T]?: unknown } {',
+        '  const values: Record<string, unknown> = {};',
+        '  for (const key of Object.keys(table.mappings) as Array<Extract<keyof T, string>>) {',
+        '    const fieldId = table.mappings[key];',
+        "    const value = typeof fieldId === 'string' && fieldId in fields ? fields[fieldId] : fields[table.fieldNames[key]];",
+        '    if (value !== undefined) {',
+        '      values[key] = value;',
+        '    }',
+        '  }',
+        '  return values as { [K in keyof T]?: unknown };',
+        '}',
+        '',
+        '/** Re-keys generated property names to field IDs (the default) or field names for a records API payload. */',
+        'export function toAirtableFields<T extends Record<string, unknown>>(',
+        "  table: Pick<AirtableTableDefinition<T>, 'mappings' | 'fieldNames'>,",
+        '  values: { [K in keyof T]?: unknown },',
+        "  keys: AirtableFieldKeys = 'id',",
+        '): Record<string, unknown> {',
+        '  const fields: Record<string, unknown> = {};',
+        '  for (const key of Object.keys(values) as Array<Extract<keyof T, string>>) {',
+        "    const target = keys === 'name' ? table.fieldNames[key] : table.mappings[key];",
+        "    if (typeof target === 'string' && values[key] !== undefined) {",
+        '      fields[target] = values[key];',
+        '    }',
+        '  }',
+        '  return fields;',
+        '}',
+        '',
+      ]
+    : [];
+
+// Sort descriptors keyed by generated property names, shared by the client and `sortBy`.
+export const renderSortTypeLines = (options: RenderOptions): string[] =>
+  options.includeClient || options.includeFormulaBuilder
+    ? [
+        "export type AirtableSortDirection = 'asc' | 'desc';",
+        '',
+        'export type AirtableSort<T> = { field: Extract<keyof T, string>; direction?: AirtableSortDirection };',
+        '',
+      ]
+    : [];
+
+// `typeParams`/`definition` match the target's `AirtableTableDefinition` so `where(table)` infers the row type from
+// the table's schema.
+export const renderFormulaBuilderLines = (options: RenderOptions, typeParams: string, definition: string): string[] =>
+  options.includeFormulaBuilder
+    ? [
+        'type AirtableFormulaScalar = string | number | boolean | Date;',
+        '',
+        '/** What a condition compares a field with: the scalar type of the field. */',
+        'export type AirtableFormulaValue<V> = Extract<V, AirtableFormulaScalar>;',
+        '',
+        '/**',
+        ' * Fields whose values can be compared in a formula. List fields (multiple selects, collaborators, lookups and',
+        ' * linked records) are left out: `=` compares their joined text, and links render primary field values, not IDs.',
+        ' */',
+        'export type AirtableFormulaField<T> = {',
+        '  [K in keyof T]-?: Extract<T[K], unknown[]> extends never',
+        '    ? [AirtableFormulaValue<T[K]>] extends [never]',
+        '      ? never',
+        '      : K',
+        '    : never;',
+        '}[keyof T] &',
+        '  string;',
+        '',
+        'export type AirtableFormulaBuilder<T> = {',
+        '  eq: <K extends AirtableFormulaField<T>>(field: K, value: AirtableFormulaValue<T[K]>) => AirtableFormulaBuilder<T>;',
+        '  ne: <K extends AirtableFormulaField<T>>(field: K, value: AirtableFormulaValue<T[K]>) => AirtableFormulaBuilder<T>;',
+        '  gt: <K extends AirtableFormulaField<T>>(field: K, value: AirtableFormulaValue<T[K]>) => AirtableFormulaBuilder<T>;',
+        '  gte: <K extends AirtableFormulaField<T>>(field: K, value: AirtableFormulaValue<T[K]>) => AirtableFormulaBuilder<T>;',
+        '  lt: <K extends AirtableFormulaField<T>>(field: K, value: AirtableFormulaValue<T[K]>) => AirtableFormulaBuilder<T>;',
+        '  lte: <K extends AirtableFormulaField<T>>(field: K, value: AirtableFormulaValue<T[K]>) => AirtableFormulaBuilder<T>;',
+        '  /** Matches when the text of the field contains `value`. */',
+        '  contains: <K extends AirtableFormulaField<T>>(',
+        '    field: K,',
+        '    value: Extract<AirtableFormulaValue<T[K]>, string>,',
+        '  ) => AirtableFormulaBuilder<T>;',
+        '  isEmpty: (field: Extract<keyof T, string>) => AirtableFormulaBuilder<T>;',
+        '  isNotEmpty: (field: Extract<keyof T, string>) => AirtableFormulaBuilder<T>;',
+        '  and: (...conditions: Array<AirtableFormulaBuilder<T>>) => AirtableFormulaBuilder<T>;',
+        '  or: (...conditions: Array<AirtableFormulaBuilder<T>>) => AirtableFormulaBuilder<T>;',
+        '  not: () => AirtableFormulaBuilder<T>;',
+        '  /** The `filterByFormula` string; conditions added one after another are joined with AND. */',
+        '  toString: () => string;',
+        '};',
+        '',
+        'function formulaValue(value: AirtableFormulaScalar): string {',
+        '  if (value instanceof Date) {',
+        "    return 'DATETIME_PARSE(\"' + value.toISOString() + '\")';",
+        '  }',
+        "  if (typeof value === 'boolean') {",
+        "    return value ? 'TRUE()' : 'FALSE()';",
+        '  }',
+        "  if (typeof value === 'number') {",
+        '    return String(value);',
+        '  }',
+        "  return '\"' + value.replace(/[\"\\\\]/g, '\\\\$&').replace(/\\n/g, '\\\\n') + '\"';",
+        '}',
+        '',
+        'function createFormulaBuilder<T>(fieldNames: Record<string, string>, terms: string[]): AirtableFormulaBuilder<T> {',
+        "  const field = (key: string): string => '{' + fieldNames[key].replace(/[}\\\\]/g, '\\\\$&') + '}';",
+        '  const add = (term: string) => createFormulaBuilder<T>(fieldNames, [...terms, term]);',
+        '  const compare = (operator: string) => (key: string, value: AirtableFormulaScalar) =>',
+        "    add(field(key) + ' ' + operator + ' ' + formulaValue(value));",
+        "  const render = (): string => (terms.length > 1 ? 'AND(' + terms.join(', ') + ')' : (terms[0] ?? ''));",
+        '  const combine = (name: string, conditions: Array<AirtableFormulaBuilder<T>>) => {',
+        '    const formulas = [render(), ...conditions.map(String)].filter(Boolean);',
+        "    return createFormulaBuilder<T>(fieldNames, formulas.length > 1 ? [name + '(' + formulas.join(', ') + ')'] : formulas);",
+        '  };',
+        '',
+        '  return {',
+        "    eq: compare('='),",
+        "    ne: compare('!='),",
+        "    gt: compare('>'),",
+        "    gte: compare('>='),",
+        "    lt: compare('<'),",
+        "    lte: compare('<='),",
+        "    contains: (key, value) => add('FIND(' + formulaValue(value) + ', ' + field(key) + ')'),",
+        "    isEmpty: (key) => add(field(key) + ' = BLANK()'),",
+        "    isNotEmpty: (key) => add('NOT(' + field(key) + ' = BLANK())'),",
+        "    and: (...conditions) => combine('AND', conditions),",
+        "    or: (...conditions) => combine('OR', conditions),",
+        "    not: () => createFormulaBuilder<T>(fieldNames, terms.length > 0 ? ['NOT(' + render() + ')'] : []),",
+        '    toString: render,',
+        '  };',
+        '}',
+        '',
+        '/** Starts a `filterByFormula` builder that references fields as `{Field Name}`. */',
+        `export function where${typeParams}(table: ${definition}): AirtableFormulaBuilder<T> {`,
+        '  return createFormulaBuilder<T>(table.fieldNames as Record<string, string>, []);',
+        '}',
+        '',
+        '/** Resolves sort descriptors keyed by property name to field IDs for the records API `sort` parameter. */',
+        `export function sortBy${typeParams}(`,
+        `  table: ${definition},`,
+        '  ...sorts: Array<AirtableSort<T>>',
+        '): Array<{ field: string; direction: AirtableSortDirection }> {',
+        "  return sorts.map(({ field, direction = 'asc' }) => {",
+        '    const fieldId = table.mappings[field];',
+        "    return { field: typeof fieldId === 'string' ? fieldId : table.fieldNames[field], direction };",
+        '  });',
+        '}',
+        '',
+      ]
+    : [];
+
+// Target-independent records API client; each table passes its own record parser so every target validates the same way.
+export const renderClientLines = (options: RenderOptions): string[] =>
+  options.includeClient
+    ? [
+        "export const AIRTABLE_API_URL = 'https://api.airtable.com/v0';",
+        '',
+        'export type AirtableClientOptions = {',
+        '  apiKey: string;',
+        '  /** Defaults to `AIRTABLE_API_URL`; point it at a mock server in tests. */',
+        '  baseUrl?: string;',
+        '  fetch?: typeof fetch;',
+        '};',
+        '',
+        'export class AirtableRequestError extends Error {',
+        '  readonly status: number;',
+        '  readonly body: string;',
+        '',
+        '  constructor(status: number, body: string) {',
+        "    super('Airtable request failed with status ' + status + ': ' + body);",
+        "    this.name = 'AirtableRequestError';",
+        '    this.status = status;',
+        '    this.body = body;',
+        '  }',
+        '}',
+        '',
+        'export type AirtableListOptions<T, TView extends string = string> = {',
+        '  view?: TView;',
+        '  filterByFormula?: string;',
+        '  maxRecords?: number;',
+        '  pageSize?: number;',
+        '  sort?: Array<AirtableSort<T>>;',
+        '};',
+        '',
+        'export type AirtableTableClient<T extends Record<string, unknown>, TCreate, TUpdate, TView extends string> = {',
+        '  /** Fetches every page of records, requesting only the mapped fields. */',
+        '  list: (options?: AirtableListOptions<T, TView>) => Promise<Array<AirtableRecord<T>>>;',
+        '  get: (recordId: string) => Promise<AirtableRecord<T>>;',
+        '  create: (records: TCreate[]) => Promise<Array<AirtableRecord<T>>>;',
+        '  update: (records: Array<{ id: string; fields: TUpdate }>) => Promise<Array<AirtableRecord<T>>>;',
+        '  /** Resolves to the IDs Airtable reports as deleted. */',
+        '  delete: (recordIds: string[]) => Promise<string[]>;',
+        '};',
+        '',
+        'type AirtableApiRecord = { id: string; fields: Record<string, unknown> };',
+        '',
+        '// The records API accepts at most 10 records per create, update or delete request.',
+        'const AIRTABLE_BATCH_SIZE = 10;',
+        '',
+        'export function createAirtableTableClient<',
+        '  T extends Record<string, unknown>,',
+        '  TCreate extends object,',
+        '  TUpdate extends object,',
+        '  TView extends string = string,',
+        '>(',
+        "  table: Pick<AirtableTableDefinition<T>, 'baseId' | 'tableId' | 'mappings'>,",
+        '  options: AirtableClientOptions,',
+        '  parse: (record: { id: string; fields: unknown }) => AirtableRecord<T>,',
+        '  encode: { create: (values: TCreate) => object; update: (values: TUpdate) => object },',
+        '  views?: Record<TView, string>,',
+        '): AirtableTableClient<T, TCreate, TUpdate, TView> {',
+        '  const fetchRecords = options.fetch ?? fetch;',
+        "  const tableUrl = [(options.baseUrl ?? AIRTABLE_API_URL).replace(/\\/+$/, ''), table.baseId, table.tableId].join('/');",
+        '  const mapped = Object.entries(table.mappings).filter(',
+        "    (entry): entry is [string, string] => typeof entry[1] === 'string',",
+        '  );',
+        '  const fieldIds = new Map(mapped);',
+        '  const keysByFieldId = new Map(mapped.map(([key, fieldId]) => [fieldId, key]));',
+        '',
+        '  const request = async <TResult>(url: string, init: RequestInit = {}): Promise<TResult> => {',
+        '    const response = await fetchRecords(url, {',
+        '      ...init,',
+        "      headers: { Authorization: 'Bearer ' + options.apiKey, 'Content-Type': 'application/json' },",
+        '    });',
+        '    if (!response.ok) {',
+        '      throw new AirtableRequestError(response.status, await response.text());',
+        '    }',
+        '    return (await response.json()) as TResult;',
+        '  };',
+        '  const toRecord = (record: AirtableApiRecord): AirtableRecord<T> => {',
+        '    const fields: Record<string, unknown> = {};',
+        '    for (const [fieldId, value] of Object.entries(record.fields)) {',
+        '      const key = keysByFieldId.get(fieldId);',
+        '      if (key !== undefined) {',
+        '        fields[key] = value;',
+        '      }',
+        '    }',
+        '    return parse({ id: record.id, fields });',
+        '  };',
+        '  const toFields = (values: object): Record<string, unknown> => {',
+        '    const fields: Record<string, unknown> = {};',
+        '    for (const [key, value] of Object.entries(values)) {',
+        '      const fieldId = fieldIds.get(key);',
+        '      if (fieldId !== undefined && value !== undefined) {',
+        '        fields[fieldId] = value;',
+        '      }',
+        '    }',
+        '    return fields;',
+        '  };',
+        '  const inBatches = async <TItem, TResult>(',
+        '    items: TItem[],',
+        '    send: (batch: TItem[]) => Promise<TResult[]>,',
+        '  ): Promise<TResult[]> => {',
+        '    const results: TResult[] = [];',
+        '    for (let index = 0; index < items.length; index += AIRTABLE_BATCH_SIZE) {',
+        '      results.push(...(await send(items.slice(index, index + AIRTABLE_BATCH_SIZE))));',
+        '    }',
+        '    return results;',
+        '  };',
+        '  const write = (method: string, records: unknown[]) =>',
+        '    request<{ records: AirtableApiRecord[] }>(tableUrl, {',
+        '      method,',
+        '      body: JSON.stringify({ records, returnFieldsByFieldId: true }),',
+        '    }).then((result) => result.records.map(toRecord));',
+        '',
+        '  return {',
+        '    list: async (listOptions = {}) => {',
+        '      const records: Array<AirtableRecord<T>> = [];',
+        '      let offset: string | undefined;',
+        '      do {',
+        "        const params = new URLSearchParams({ returnFieldsByFieldId: 'true' });",
+        '        for (const fieldId of fieldIds.values()) {',
+        "          params.append('fields[]', fieldId);",
+        '        }',
+        '        if (listOptions.view !== undefined) {',
+        "          params.set('view', views?.[listOptions.view] ?? listOptions.view);",
+        '        }',
+        '        if (listOptions.filterByFormula !== undefined) {',
+        "          params.set('filterByFormula', listOptions.filterByFormula);",
+        '        }',
+        '        if (listOptions.maxRecords !== undefined) {',
+        "          params.set('maxRecords', String(listOptions.maxRecords));",
+        '        }',
+        '        if (listOptions.pageSize !== undefined) {',
+        "          params.set('pageSize', String(listOptions.pageSize));",
+        '        }',
+        '        for (const [index, sort] of (listOptions.sort ?? []).entries()) {',
+        "          params.set('sort[' + index + '][field]', fieldIds.get(sort.field) ?? sort.field);",
+        "          params.set('sort[' + index + '][direction]', sort.direction ?? 'asc');",
+        '        }',
+        '        if (offset !== undefined) {',
+        "          params.set('offset', offset);",
+        '        }',
+        "        const page = await request<{ records: AirtableApiRecord[]; offset?: string }>(tableUrl + '?' + params);",
+        '        records.push(...page.records.map(toRecord));',
+        '        offset = page.offset;',
+        '      } while (offset !== undefined);',
+        '      return records;',
+        '    },',
+        '    get: async (recordId) =>',
+        '      toRecord(',
+        "        await request<AirtableApiRecord>(tableUrl + '/' + encodeURIComponent(recordId) + '?returnFieldsByFieldId=true'),",
+        '      ),',
+        "    create: (records) => inBatches(records, (batch) => write('POST', batch.map((values) => ({ fields: toFields(encode.create(values)) })))),",
+        '    update: (records) =>',
+        "      inBatches(records, (batch) => write('PATCH', batch.map(({ id, fields }) => ({ id, fields: toFields(encode.update(fields)) })))),",
+        '    delete: (recordIds) =>',
+        '      inBatches(recordIds, async (batch) => {',
+        "        const params = new URLSearchParams(batch.map((id) => ['records[]', id]));",
+        "        const result = await request<{ records: Array<{ id: string; deleted: boolean }> }>(tableUrl + '?' + params, {",
+        "          method: 'DELETE',",
+        '        });',
+        '        return result.records.filter((record) => record.deleted).map((record) => record.id);',
+        '      }),',
+        '  };',
+        '}',
+        '',
+      ]
+    : [];
+
+// `parse` turns a `{ id, fields }` record keyed by generated names into the typed record;
+// `encode` renders a call that runs write values through the named write schema.
+export const renderTableClient = (
+  model: TableModel,
+  options: RenderOptions,
+  parse: string,
+  encode?: (schemaName: string) => string,
+): string => {
+  if (!options.includeClient) {
+    return '';
+  }
+  const { typeName } = model;
+  const writeTypes = options.includeWriteSchema
+    ? `${typeName}Create, ${typeName}Update`
+    : `Partial<${typeName}>, Partial<${typeName}>`;
+  // named_views keys map to IDs; without them the API takes view names as they are.
+  const viewType = model.namedViews
+    ? `keyof typeof ${model.namedViews.constName}`
+    : model.views
+      ? `${typeName}ViewName`
+      : 'string';
+  const encoders =
+    options.includeWriteSchema && encode
+      ? `{ create: (values) => ${encode(`${typeName}CreateSchema`)}, update: (values) => ${encode(`${typeName}UpdateSchema`)} }`
+      : '{ create: (values) => values, update: (values) => values }';
+  const args = [
+    model.tableConstName,
+    'options',
+    parse,
+    encoders,
+    ...(model.namedViews ? [model.namedViews.constName] : []),
+  ];
+  return `\n\n/** Typed records API client for {@link ${model.tableConstName}}. */\nexport const create${typeName}Client = (options: AirtableClientOptions) =>\n  createAirtableTableClient<${typeName}, ${writeTypes}, ${viewType}>(${args
+    .map((arg) => `\n    ${arg},`)
+    .join('')}\n  );`;
+};
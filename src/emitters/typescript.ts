@@ -0,0 +1,184 @@
+import type { Emitter, GeneratedField, RenderOptions, TableModel, ZodSpec } from '../types.js';
+import {
+  asInnerSpec,
+  escapeString,
+  keyFieldsById,
+  renderClientLines,
+  renderDeprecatedAliases,
+  renderFieldDoc,
+  renderFieldKeyHelperLines,
+  renderFormulaBuilderLines,
+  renderRecordTypeLines,
+  renderSortTypeLines,
+  renderTableClient,
+  renderTableDefinition,
+  renderTableDefinitionTypeLines,
+  renderTableDoc,
+  renderUnsupportedEntry,
+} from './shared.js';
+
+const renderTypeScriptSpec = (spec: ZodSpec): string => {
+  const type = renderTypeScriptType(spec);
+  const value = spec.errorable ? `${type} | AirtableFormulaError` : type;
+  return spec.nullable ? `${value} | null` : value;
+};
+
+// Without a validator nothing converts values at runtime, so dates stay ISO strings even with `dates = "date"`.
+const renderTypeScriptType = (spec: ZodSpec): string => {
+  switch (spec.kind) {
+    case 'string':
+    case 'date':
+    case 'dateTime':
+    case 'dateWrite':
+    case 'dateTimeWrite':
+      return 'string';
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'record':
+      return 'Record<string, unknown>';
+    case 'object':
+      return '{ id: string; [key: string]: unknown }';
+    case 'attachment':
+      return 'AirtableAttachment';
+    case 'collaborator':
+      return 'AirtableCollaborator';
+    case 'attachmentWrite':
+      return 'AirtableAttachmentWrite';
+    case 'collaboratorWrite':
+      return 'AirtableCollaboratorWrite';
+    case 'barcode':
+      return 'AirtableBarcode';
+    case 'button':
+      return 'AirtableButton';
+    case 'aiText':
+      return 'AirtableAiText';
+    case 'enum': {
+      const values = (spec.values ?? []).map((value) => `'${escapeString(value)}'`);
+      return (spec.open ? [...values, '(string & {})'] : values).join(' | ');
+    }
+    case 'custom':
+      return spec.expression ?? 'unknown';
+    case 'array': {
+      const inner = spec.inner ? renderTypeScriptSpec(asInnerSpec(spec.inner)) : 'unknown';
+      return `Array<${inner}>`;
+    }
+    default:
+      return 'unknown';
+  }
+};
+
+const renderEntry = (field: GeneratedField, spec: ZodSpec | null): string => {
+  if (spec === null) {
+    return renderUnsupportedEntry(field);
+  }
+  return `${renderFieldDoc(field)}\n  ${field.jsName}${spec.optional ? '?' : ''}: ${renderTypeScriptSpec(spec)};`;
+};
+
+const renderTable = (model: TableModel, options: RenderOptions): string => {
+  const typeName = model.typeName;
+  const recordTypeBlock = options.includeRecordSchema
+    ? `\n\nexport type ${typeName}Record = AirtableRecord<${typeName}>;`
+    : '';
+  const writeEntries = model.fields
+    .map((field) => (field.writeSpec ? renderEntry(field, field.writeSpec) : ''))
+    .join('');
+  const writeTypeBlock = options.includeWriteSchema
+    ? `\n\nexport type ${typeName}Create = {${writeEntries}\n};\n\nexport type ${typeName}Update = Partial<${typeName}Create>;`
+    : '';
+
+  const byIdEntries = keyFieldsById(model.fields)
+    .map((field) => renderEntry(field, field.zodSpec))
+    .join('');
+  const byIdTypeBlock = options.includeByIdSchema ? `\n\nexport type ${typeName}ById = {${byIdEntries}\n};` : '';
+
+  const entries = model.fields.map((field) => renderEntry(field, field.zodSpec)).join('');
+  const definition = renderTableDefinition(model, options, null, typeName);
+  // Without a validator the client trusts the API response shape.
+  const client = renderTableClient(model, options, `(record) => record as ${typeName}Record`);
+
+  return `${renderTableDoc(model)}\nexport type ${typeName} = {${entries}\n};${recordTypeBlock}${writeTypeBlock}${byIdTypeBlock}${definition}${client}${renderDeprecatedAliases(model, options, false)}`;
+};
+
+const cellTypeLines = [
+  'export type AirtableThumbnail = {',
+  '  url: string;',
+  '  width: number;',
+  '  height: number;',
+  '};',
+  '',
+  'export type AirtableAttachment = {',
+  '  id: string;',
+  '  url: string;',
+  '  filename: string;',
+  '  size: number;',
+  '  type: string;',
+  '  width?: number;',
+  '  height?: number;',
+  '  thumbnails?: {',
+  '    small?: AirtableThumbnail;',
+  '    large?: AirtableThumbnail;',
+  '    full?: AirtableThumbnail;',
+  '  };',
+  '};',
+  '',
+  'export type AirtableCollaborator = {',
+  '  id: string;',
+  '  email?: string;',
+  '  name?: string;',
+  '  permissionLevel?: string;',
+  '  profilePicUrl?: string;',
+  '};',
+  '',
+  'export type AirtableBarcode = {',
+  '  text: string;',
+  '  type?: string;',
+  '};',
+  '',
+  'export type AirtableButton = {',
+  '  label: string;',
+  '  url: string | null;',
+  '};',
+  '',
+  'export type AirtableAiText = {',
+  "  state: 'empty' | 'loading' | 'generated' | 'error';",
+  '  value: string | null;',
+  '  isStale: boolean;',
+  '  errorType?: string;',
+  '};',
+  '',
+  'export type AirtableFormulaError = {',
+  '  error: string;',
+  '};',
+  '',
+];
+
+const renderRuntime = (options: RenderOptions): string[] => {
+  const writeTypeLines = options.includeWriteSchema
+    ? [
+        'export type AirtableAttachmentWrite = { id: string } | { url: string; filename?: string };',
+        '',
+        'export type AirtableCollaboratorWrite = { id: string } | { email: string };',
+        '',
+      ]
+    : [];
+
+  return [
+    ...cellTypeLines,
+    ...writeTypeLines,
+    ...renderRecordTypeLines(options),
+    ...renderTableDefinitionTypeLines('<T extends Record<string, unknown>>', [], options),
+    ...renderFieldKeyHelperLines(options),
+    ...renderSortTypeLines(options),
+    ...renderFormulaBuilderLines(options, '<T extends Record<string, unknown>>', 'AirtableTableDefinition<T>'),
+    ...renderClientLines(options),
+  ];
+};
+
+export const typescriptEmitter: Emitter = {
+  target: 'typescript',
+  imports: [],
+  renderRuntime,
+  renderTable,
+};
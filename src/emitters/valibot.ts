@@ -0,0 +1,315 @@
+import type { Emitter, GeneratedField, RenderOptions, TableModel, ZodSpec } from '../types.js';
+import {
+  asInnerSpec,
+  escapeString,
+  keyFieldsById,
+  renderClientLines,
+  renderDeprecatedAliases,
+  renderFieldDoc,
+  renderFieldKeyHelperLines,
+  renderFormulaBuilderLines,
+  renderRecordTypeLines,
+  renderSortTypeLines,
+  renderTableClient,
+  renderTableDefinition,
+  renderTableDefinitionTypeLines,
+  renderTableDoc,
+  renderUnsupportedEntry,
+} from './shared.js';
+
+const renderValibotSpec = (spec: ZodSpec): string => {
+  let expr: string;
+  switch (spec.kind) {
+    case 'string':
+      expr = 'v.string()';
+      break;
+    case 'number':
+      expr = 'v.number()';
+      break;
+    case 'boolean':
+      expr = 'v.boolean()';
+      break;
+    case 'record':
+      expr = 'v.record(v.string(), v.unknown())';
+      break;
+    case 'object':
+      expr = 'v.looseObject({ id: v.string() })';
+      break;
+    case 'attachment':
+      expr = 'AirtableAttachmentSchema';
+      break;
+    case 'collaborator':
+      expr = 'AirtableCollaboratorSchema';
+      break;
+    case 'attachmentWrite':
+      expr = 'AirtableAttachmentWriteSchema';
+      break;
+    case 'collaboratorWrite':
+      expr = 'AirtableCollaboratorWriteSchema';
+      break;
+    case 'barcode':
+      expr = 'AirtableBarcodeSchema';
+      break;
+    case 'button':
+      expr = 'AirtableButtonSchema';
+      break;
+    case 'aiText':
+      expr = 'AirtableAiTextSchema';
+      break;
+    case 'date':
+      expr = spec.coerce ? 'AirtableDateSchema' : 'v.pipe(v.string(), v.isoDate())';
+      break;
+    case 'dateTime':
+      expr = spec.coerce ? 'AirtableDateTimeSchema' : 'v.pipe(v.string(), v.isoTimestamp())';
+      break;
+    case 'dateWrite':
+      expr = 'AirtableDateWriteSchema';
+      break;
+    case 'dateTimeWrite':
+      expr = 'AirtableDateTimeWriteSchema';
+      break;
+    case 'enum': {
+      const values = `[${(spec.values ?? []).map((value) => `'${escapeString(value)}'`).join(', ')}]`;
+      expr = spec.open
+        ? `v.union([v.picklist(${values}), v.custom<string & {}>((value) => typeof value === 'string')])`
+        : `v.picklist(${values})`;
+      break;
+    }
+    case 'custom':
+      expr = spec.expression ?? 'v.unknown()';
+      break;
+    case 'array': {
+      const inner = spec.inner ? renderValibotSpec(asInnerSpec(spec.inner)) : 'v.unknown()';
+      expr = `v.array(${inner})`;
+      break;
+    }
+    default:
+      expr = 'v.unknown()';
+  }
+  if (spec.errorable) {
+    expr = `v.union([${expr}, AirtableFormulaErrorSchema])`;
+  }
+  if (spec.nullable) {
+    expr = `v.nullable(${expr})`;
+  }
+  if (spec.optional) {
+    expr = `v.optional(${expr})`;
+  }
+  return expr;
+};
+
+const renderEntry = (field: GeneratedField, spec: ZodSpec | null): string => {
+  if (spec === null) {
+    return renderUnsupportedEntry(field);
+  }
+  return `${renderFieldDoc(field)}\n  ${field.jsName}: ${renderValibotSpec(spec)},`;
+};
+
+const renderTable = (model: TableModel, options: RenderOptions): string => {
+  const typeName = model.typeName;
+  const schemaName = `${typeName}Schema`;
+  const recordSchemaName = `${typeName}RecordSchema`;
+  const createSchemaName = `${typeName}CreateSchema`;
+  const updateSchemaName = `${typeName}UpdateSchema`;
+
+  const recordSchemaBlock = options.includeRecordSchema
+    ? `\n\nexport const ${recordSchemaName} = v.strictObject({\n  id: v.string(),\n  fields: ${schemaName},\n});\n\nexport type ${typeName}Record = v.InferOutput<typeof ${recordSchemaName}>;`
+    : '';
+  const writeEntries = model.fields
+    .map((field) => (field.writeSpec ? renderEntry(field, field.writeSpec) : ''))
+    .join('');
+  const writeSchemaBlock = options.includeWriteSchema
+    ? `\n\nexport const ${createSchemaName} = v.strictObject({${writeEntries}\n});\n\nexport type ${typeName}Create = v.InferInput<typeof ${createSchemaName}>;\n\nexport const ${updateSchemaName} = v.partial(${createSchemaName});\n\nexport type ${typeName}Update = v.InferInput<typeof ${updateSchemaName}>;`
+    : '';
+
+  const byIdEntries = keyFieldsById(model.fields)
+    .map((field) => renderEntry(field, field.zodSpec))
+    .join('');
+  const byIdSchemaBlock = options.includeByIdSchema
+    ? `\n\nexport const ${typeName}ByIdSchema = v.strictObject({${byIdEntries}\n});\n\nexport type ${typeName}ById = v.InferOutput<typeof ${typeName}ByIdSchema>;`
+    : '';
+
+  const hasInputType = options.dates === 'date';
+  const inputTypeBlock = hasInputType ? `\n\nexport type ${typeName}Input = v.InferInput<typeof ${schemaName}>;` : '';
+  const definitionTypeArgs = hasInputType ? `${typeName}, ${typeName}Input` : typeName;
+
+  const entries = model.fields.map((field) => renderEntry(field, field.zodSpec)).join('');
+  const definition = renderTableDefinition(
+    model,
+    options,
+    {
+      schema: schemaName,
+      recordSchema: options.includeRecordSchema ? recordSchemaName : undefined,
+      createSchema: options.includeWriteSchema ? createSchemaName : undefined,
+      updateSchema: options.includeWriteSchema ? updateSchemaName : undefined,
+    },
+    definitionTypeArgs,
+  );
+
+  const client = renderTableClient(
+    model,
+    options,
+    `(record) => parseRecord(${model.tableConstName}, record)`,
+    (schema) => `v.parse(${schema}, values)`,
+  );
+  const doc = renderTableDoc(model);
+
+  return `${doc}\nexport const ${schemaName} = v.strictObject({${entries}\n});\n\n${doc}\nexport type ${typeName} = v.InferOutput<typeof ${schemaName}>;${inputTypeBlock}${recordSchemaBlock}${writeSchemaBlock}${byIdSchemaBlock}${definition}${client}${renderDeprecatedAliases(model, options, true)}`;
+};
+
+const cellSchemaLines = [
+  'export const AirtableThumbnailSchema = v.object({',
+  '  url: v.string(),',
+  '  width: v.number(),',
+  '  height: v.number(),',
+  '});',
+  '',
+  'export const AirtableAttachmentSchema = v.object({',
+  '  id: v.string(),',
+  '  url: v.string(),',
+  '  filename: v.string(),',
+  '  size: v.number(),',
+  '  type: v.string(),',
+  '  width: v.optional(v.number()),',
+  '  height: v.optional(v.number()),',
+  '  thumbnails: v.optional(',
+  '    v.object({',
+  '      small: v.optional(AirtableThumbnailSchema),',
+  '      large: v.optional(AirtableThumbnailSchema),',
+  '      full: v.optional(AirtableThumbnailSchema),',
+  '    }),',
+  '  ),',
+  '});',
+  '',
+  'export type AirtableAttachment = v.InferOutput<typeof AirtableAttachmentSchema>;',
+  '',
+  'export const AirtableCollaboratorSchema = v.object({',
+  '  id: v.string(),',
+  '  email: v.optional(v.string()),',
+  '  name: v.optional(v.string()),',
+  '  permissionLevel: v.optional(v.string()),',
+  '  profilePicUrl: v.optional(v.string()),',
+  '});',
+  '',
+  'export type AirtableCollaborator = v.InferOutput<typeof AirtableCollaboratorSchema>;',
+  '',
+  'export const AirtableBarcodeSchema = v.object({',
+  '  text: v.string(),',
+  '  type: v.optional(v.string()),',
+  '});',
+  '',
+  'export type AirtableBarcode = v.InferOutput<typeof AirtableBarcodeSchema>;',
+  '',
+  'export const AirtableButtonSchema = v.object({',
+  '  label: v.string(),',
+  '  url: v.nullable(v.string()),',
+  '});',
+  '',
+  'export type AirtableButton = v.InferOutput<typeof AirtableButtonSchema>;',
+  '',
+  'export const AirtableAiTextSchema = v.object({',
+  "  state: v.picklist(['empty', 'loading', 'generated', 'error']),",
+  '  value: v.nullable(v.string()),',
+  '  isStale: v.boolean(),',
+  '  errorType: v.optional(v.string()),',
+  '});',
+  '',
+  'export type AirtableAiText = v.InferOutput<typeof AirtableAiTextSchema>;',
+  '',
+  'export const AirtableFormulaErrorSchema = v.object({',
+  '  error: v.string(),',
+  '});',
+  '',
+  'export type AirtableFormulaError = v.InferOutput<typeof AirtableFormulaErrorSchema>;',
+  '',
+];
+
+const renderRuntime = (options: RenderOptions): string[] => {
+  const parseRecordLines = options.includeRecordSchema
+    ? [
+        'export function parseRecord<T extends Record<string, unknown>, TInput = unknown>(',
+        '  table: AirtableTableDefinition<T, TInput>,',
+        '  record: { id: string; fields: unknown },',
+        '): AirtableRecord<T> {',
+        '  return v.parse(table.recordSchema, record);',
+        '}',
+        '',
+      ]
+    : [];
+  const writeSchemaLines = options.includeWriteSchema
+    ? [
+        'export const AirtableAttachmentWriteSchema = v.union([',
+        '  v.object({ id: v.string() }),',
+        '  v.object({ url: v.string(), filename: v.optional(v.string()) }),',
+        ']);',
+        '',
+        'export const AirtableCollaboratorWriteSchema = v.union([v.object({ id: v.string() }), v.object({ email: v.string() })]);',
+        '',
+      ]
+    : [];
+  const dateSchemaLines =
+    options.dates === 'date'
+      ? [
+          'export const AirtableDateSchema = v.pipe(',
+          '  v.string(),',
+          '  v.isoDate(),',
+          '  v.transform((value) => new Date(value)),',
+          ');',
+          '',
+          'export const AirtableDateTimeSchema = v.pipe(',
+          '  v.string(),',
+          '  v.isoTimestamp(),',
+          '  v.transform((value) => new Date(value)),',
+          ');',
+          '',
+          ...(options.includeWriteSchema
+            ? [
+                'export const AirtableDateWriteSchema = v.pipe(',
+                '  v.date(),',
+                '  v.transform((value) => value.toISOString().slice(0, 10)),',
+                ');',
+                '',
+                'export const AirtableDateTimeWriteSchema = v.pipe(',
+                '  v.date(),',
+                '  v.transform((value) => value.toISOString()),',
+                ');',
+                '',
+              ]
+            : []),
+        ]
+      : [];
+  const schemaMembers = [
+    '  schema: v.GenericSchema<TInput, T>;',
+    ...(options.includeRecordSchema ? ['  recordSchema: v.GenericSchema<unknown, AirtableRecord<T>>;'] : []),
+    ...(options.includeWriteSchema
+      ? [
+          '  createSchema: v.GenericSchema<unknown, { [K in keyof T]?: unknown }>;',
+          '  updateSchema: v.GenericSchema<unknown, { [K in keyof T]?: unknown }>;',
+        ]
+      : []),
+  ];
+
+  return [
+    ...cellSchemaLines,
+    ...writeSchemaLines,
+    ...dateSchemaLines,
+    ...renderRecordTypeLines(options),
+    ...renderTableDefinitionTypeLines('<T extends Record<string, unknown>, TInput = unknown>', schemaMembers, options),
+    ...parseRecordLines,
+    ...renderFieldKeyHelperLines(options),
+    ...renderSortTypeLines(options),
+    ...renderFormulaBuilderLines(
+      options,
+      '<T extends Record<string, unknown>, TInput = unknown>',
+      'AirtableTableDefinition<T, TInput>',
+    ),
+    ...renderClientLines(options),
+  ];
+};
+
+export const valibotEmitter: Emitter = {
+  target: 'valibot',
+  imports: ["import * as v from 'valibot';"],
+  renderRuntime,
+  renderTable,
+};
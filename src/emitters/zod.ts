@@ -0,0 +1,307 @@
+import type { Emitter, GeneratedField, RenderOptions, TableModel, ZodSpec } from '../types.js';
+import {
+  asInnerSpec,
+  escapeString,
+  keyFieldsById,
+  renderClientLines,
+  renderDeprecatedAliases,
+  renderFieldDoc,
+  renderFieldKeyHelperLines,
+  renderFormulaBuilderLines,
+  renderRecordTypeLines,
+  renderSortTypeLines,
+  renderTableClient,
+  renderTableDefinition,
+  renderTableDefinitionTypeLines,
+  renderTableDoc,
+  renderUnsupportedEntry,
+} from './shared.js';
+
+export const renderZodSpec = (spec: ZodSpec): string => {
+  let expr: string;
+  switch (spec.kind) {
+    case 'string':
+      expr = 'z.string()';
+      break;
+    case 'number':
+      expr = 'z.number()';
+      break;
+    case 'boolean':
+      expr = 'z.boolean()';
+      break;
+    case 'record':
+      expr = 'z.record(z.string(), z.unknown())';
+      break;
+    case 'object':
+      expr = 'z.object({ id: z.string() }).passthrough()';
+      break;
+    case 'attachment':
+      expr = 'AirtableAttachmentSchema';
+      break;
+    case 'collaborator':
+      expr = 'AirtableCollaboratorSchema';
+      break;
+    case 'attachmentWrite':
+      expr = 'AirtableAttachmentWriteSchema';
+      break;
+    case 'collaboratorWrite':
+      expr = 'AirtableCollaboratorWriteSchema';
+      break;
+    case 'barcode':
+      expr = 'AirtableBarcodeSchema';
+      break;
+    case 'button':
+      expr = 'AirtableButtonSchema';
+      break;
+    case 'aiText':
+      expr = 'AirtableAiTextSchema';
+      break;
+    case 'date':
+      expr = spec.coerce ? 'AirtableDateSchema' : 'z.iso.date()';
+      break;
+    case 'dateTime':
+      expr = spec.coerce ? 'AirtableDateTimeSchema' : 'z.iso.datetime()';
+      break;
+    case 'dateWrite':
+      expr = 'AirtableDateWriteSchema';
+      break;
+    case 'dateTimeWrite':
+      expr = 'AirtableDateTimeWriteSchema';
+      break;
+    case 'enum': {
+      const values = `[${(spec.values ?? []).map((value) => `'${escapeString(value)}'`).join(', ')}]`;
+      expr = spec.open
+        ? `z.union([z.enum(${values}), z.custom<string & {}>((value) => typeof value === 'string')])`
+        : `z.enum(${values})`;
+      break;
+    }
+    case 'custom':
+      expr = spec.expression ?? 'z.unknown()';
+      break;
+    case 'array': {
+      const inner = spec.inner ? renderZodSpec(asInnerSpec(spec.inner)) : 'z.unknown()';
+      expr = `z.array(${inner})`;
+      break;
+    }
+    default:
+      expr = 'z.unknown()';
+  }
+  if (spec.errorable) {
+    expr = `z.union([${expr}, AirtableFormulaErrorSchema])`;
+  }
+  if (spec.nullable) {
+    expr = `${expr}.nullable()`;
+  }
+  if (spec.optional) {
+    expr = `${expr}.optional()`;
+  }
+  return expr;
+};
+
+const renderEntry = (field: GeneratedField, spec: ZodSpec | null): string => {
+  if (spec === null) {
+    return renderUnsupportedEntry(field);
+  }
+  return `${renderFieldDoc(field)}\n  ${field.jsName}: ${renderZodSpec(spec)},`;
+};
+
+const renderTable = (model: TableModel, options: RenderOptions): string => {
+  const typeName = model.typeName;
+  const schemaName = `${typeName}Schema`;
+  const recordSchemaName = `${typeName}RecordSchema`;
+  const createSchemaName = `${typeName}CreateSchema`;
+  const updateSchemaName = `${typeName}UpdateSchema`;
+
+  const recordSchemaBlock = options.includeRecordSchema
+    ? `\n\nexport const ${recordSchemaName} = z\n  .object({\n    id: z.string(),\n    fields: ${schemaName},\n  })\n  .strict();\n\nexport type ${typeName}Record = z.infer<typeof ${recordSchemaName}>;`
+    : '';
+  const writeEntries = model.fields
+    .map((field) => (field.writeSpec ? renderEntry(field, field.writeSpec) : ''))
+    .join('');
+  const writeSchemaBlock = options.includeWriteSchema
+    ? `\n\nexport const ${createSchemaName} = z.object({${writeEntries}\n}).strict();\n\nexport type ${typeName}Create = z.input<typeof ${createSchemaName}>;\n\nexport const ${updateSchemaName} = ${createSchemaName}.partial();\n\nexport type ${typeName}Update = z.input<typeof ${updateSchemaName}>;`
+    : '';
+
+  const byIdEntries = keyFieldsById(model.fields)
+    .map((field) => renderEntry(field, field.zodSpec))
+    .join('');
+  const byIdSchemaBlock = options.includeByIdSchema
+    ? `\n\nexport const ${typeName}ByIdSchema = z.object({${byIdEntries}\n}).strict();\n\nexport type ${typeName}ById = z.infer<typeof ${typeName}ByIdSchema>;`
+    : '';
+
+  const hasInputType = options.dates === 'date';
+  const inputTypeBlock = hasInputType ? `\n\nexport type ${typeName}Input = z.input<typeof ${schemaName}>;` : '';
+  const definitionTypeArgs = hasInputType ? `${typeName}, ${typeName}Input` : typeName;
+
+  const entries = model.fields.map((field) => renderEntry(field, field.zodSpec)).join('');
+  const definition = renderTableDefinition(
+    model,
+    options,
+    {
+      schema: schemaName,
+      recordSchema: options.includeRecordSchema ? recordSchemaName : undefined,
+      createSchema: options.includeWriteSchema ? createSchemaName : undefined,
+      updateSchema: options.includeWriteSchema ? updateSchemaName : undefined,
+    },
+    definitionTypeArgs,
+  );
+
+  const client = renderTableClient(
+    model,
+    options,
+    `(record) => parseRecord(${model.tableConstName}, record)`,
+    (schema) => `${schema}.parse(values)`,
+  );
+  const doc = renderTableDoc(model);
+
+  return `${doc}\nexport const ${schemaName} = z.object({${entries}\n}).strict();\n\n${doc}\nexport type ${typeName} = z.infer<typeof ${schemaName}>;${inputTypeBlock}${recordSchemaBlock}${writeSchemaBlock}${byIdSchemaBlock}${definition}${client}${renderDeprecatedAliases(model, options, true)}`;
+};
+
+const cellSchemaLines = [
+  'export const AirtableThumbnailSchema = z.object({',
+  '  url: z.string(),',
+  '  width: z.number(),',
+  '  height: z.number(),',
+  '});',
+  '',
+  'export const AirtableAttachmentSchema = z.object({',
+  '  id: z.string(),',
+  '  url: z.string(),',
+  '  filename: z.string(),',
+  '  size: z.number(),',
+  '  type: z.string(),',
+  '  width: z.number().optional(),',
+  '  height: z.number().optional(),',
+  '  thumbnails: z',
+  '    .object({',
+  '      small: AirtableThumbnailSchema.optional(),',
+  '      large: AirtableThumbnailSchema.optional(),',
+  '      full: AirtableThumbnailSchema.optional(),',
+  '    })',
+  '    .optional(),',
+  '});',
+  '',
+  'export type AirtableAttachment = z.infer<typeof AirtableAttachmentSchema>;',
+  '',
+  'export const AirtableCollaboratorSchema = z.object({',
+  '  id: z.string(),',
+  '  email: z.string().optional(),',
+  '  name: z.string().optional(),',
+  '  permissionLevel: z.string().optional(),',
+  '  profilePicUrl: z.string().optional(),',
+  '});',
+  '',
+  'export type AirtableCollaborator = z.infer<typeof AirtableCollaboratorSchema>;',
+  '',
+  'export const AirtableBarcodeSchema = z.object({',
+  '  text: z.string(),',
+  '  type: z.string().optional(),',
+  '});',
+  '',
+  'export type AirtableBarcode = z.infer<typeof AirtableBarcodeSchema>;',
+  '',
+  'export const AirtableButtonSchema = z.object({',
+  '  label: z.string(),',
+  '  url: z.string().nullable(),',
+  '});',
+  '',
+  'export type AirtableButton = z.infer<typeof AirtableButtonSchema>;',
+  '',
+  'export const AirtableAiTextSchema = z.object({',
+  "  state: z.enum(['empty', 'loading', 'generated', 'error']),",
+  '  value: z.string().nullable(),',
+  '  isStale: z.boolean(),',
+  '  errorType: z.string().optional(),',
+  '});',
+  '',
+  'export type AirtableAiText = z.infer<typeof AirtableAiTextSchema>;',
+  '',
+  'export const AirtableFormulaErrorSchema = z.object({',
+  '  error: z.string(),',
+  '});',
+  '',
+  'export type AirtableFormulaError = z.infer<typeof AirtableFormulaErrorSchema>;',
+  '',
+];
+
+const renderRuntime = (options: RenderOptions): string[] => {
+  const parseRecordLines = options.includeRecordSchema
+    ? [
+        'export function parseRecord<T extends Record<string, unknown>, TInput = unknown>(',
+        '  table: AirtableTableDefinition<T, TInput>,',
+        '  record: { id: string; fields: unknown },',
+        '): AirtableRecord<T> {',
+        '  return table.recordSchema.parse(record);',
+        '}',
+        '',
+      ]
+    : [];
+  const writeSchemaLines = options.includeWriteSchema
+    ? [
+        'export const AirtableAttachmentWriteSchema = z.union([',
+        '  z.object({ id: z.string() }),',
+        '  z.object({ url: z.string(), filename: z.string().optional() }),',
+        ']);',
+        '',
+        'export const AirtableCollaboratorWriteSchema = z.union([z.object({ id: z.string() }), z.object({ email: z.string() })]);',
+        '',
+      ]
+    : [];
+  const dateSchemaLines =
+    options.dates === 'date'
+      ? [
+          'export const AirtableDateSchema = z.codec(z.iso.date(), z.date(), {',
+          '  decode: (value) => new Date(value),',
+          '  encode: (value) => value.toISOString().slice(0, 10),',
+          '});',
+          '',
+          'export const AirtableDateTimeSchema = z.codec(z.iso.datetime(), z.date(), {',
+          '  decode: (value) => new Date(value),',
+          '  encode: (value) => value.toISOString(),',
+          '});',
+          '',
+          ...(options.includeWriteSchema
+            ? [
+                'export const AirtableDateWriteSchema = z.date().transform((value) => value.toISOString().slice(0, 10));',
+                '',
+                'export const AirtableDateTimeWriteSchema = z.date().transform((value) => value.toISOString());',
+                '',
+              ]
+            : []),
+        ]
+      : [];
+  const schemaMembers = [
+    '  schema: z.ZodType<T, TInput>;',
+    ...(options.includeRecordSchema ? ['  recordSchema: z.ZodType<AirtableRecord<T>>;'] : []),
+    ...(options.includeWriteSchema
+      ? [
+          '  createSchema: z.ZodType<{ [K in keyof T]?: unknown }>;',
+          '  updateSchema: z.ZodType<{ [K in keyof T]?: unknown }>;',
+        ]
+      : []),
+  ];
+
+  return [
+    ...cellSchemaLines,
+    ...writeSchemaLines,
+    ...dateSchemaLines,
+    ...renderRecordTypeLines(options),
+    ...renderTableDefinitionTypeLines('<T extends Record<string, unknown>, TInput = unknown>', schemaMembers, options),
+    ...parseRecordLines,
+    ...renderFieldKeyHelperLines(options),
+    ...renderSortTypeLines(options),
+    ...renderFormulaBuilderLines(
+      options,
+      '<T extends Record<string, unknown>, TInput = unknown>',
+      'AirtableTableDefinition<T, TInput>',
+    ),
+    ...renderClientLines(options),
+  ];
+};
+
+export const zodEmitter: Emitter = {
+  target: 'zod',
+  imports: ["import { z } from 'zod';"],
+  renderRuntime,
+  renderTable,
+};
@@ -0,0 +1,128 @@
+export type AirtableErrorCode = 'auth' | 'permission' | 'not_found' | 'rate_limited' | 'network' | 'invalid_response';
+
+export type AirtableErrorBase = {
+  baseId: string;
+  baseName?: string;
+};
+
+export type AirtableErrorOptions = {
+  base?: AirtableErrorBase;
+  status?: number;
+  cause?: unknown;
+};
+
+const TOKENS_URL = 'https://airtable.com/create/tokens';
+
+const describeBase = (base?: AirtableErrorBase): string => {
+  if (!base) {
+    return 'the list of bases';
+  }
+  return base.baseName && base.baseName !== base.baseId
+    ? `base "${base.baseName}" (${base.baseId})`
+    : `base ${base.baseId}`;
+};
+
+// Thrown by the fetch layer; `hint` tells the user what to change, `code` lets callers branch without parsing messages.
+export abstract class AirtableApiError extends Error {
+  abstract readonly code: AirtableErrorCode;
+  readonly hint: string;
+  readonly baseId?: string;
+  readonly baseName?: string;
+  readonly status?: number;
+
+  constructor(message: string, hint: string, options: AirtableErrorOptions = {}) {
+    super(message, options.cause === undefined ? undefined : { cause: options.cause });
+    this.name = new.target.name;
+    this.hint = hint;
+    this.baseId = options.base?.baseId;
+    this.baseName = options.base?.baseName;
+    this.status = options.status;
+  }
+
+  toJSON() {
+    return {
+      code: this.code,
+      message: this.message,
+      hint: this.hint,
+      baseId: this.baseId,
+      baseName: this.baseName,
+      status: this.status,
+    };
+  }
+}
+
+export class AirtableAuthError extends AirtableApiError {
+  readonly code = 'auth';
+
+  constructor(options: AirtableErrorOptions = {}) {
+    super(
+      `Airtable rejected the API key while fetching ${describeBase(options.base)}.`,
+      `The token is missing, mistyped, expired or revoked. Create a personal access token at ${TOKENS_URL} and set it with api_key, api_key_env, or AIRTABLE_API_KEY.`,
+      options,
+    );
+  }
+}
+
+export class AirtablePermissionError extends AirtableApiError {
+  readonly code = 'permission';
+
+  constructor(options: AirtableErrorOptions = {}) {
+    super(
+      `The API key is not allowed to read ${options.base ? 'the schema of ' : ''}${describeBase(options.base)}.`,
+      `Give the token the schema.bases:read scope and access to this base at ${TOKENS_URL}. Airtable also answers 403 for base IDs that do not exist, so check base_id too.`,
+      options,
+    );
+  }
+}
+
+export class AirtableNotFoundError extends AirtableApiError {
+  readonly code = 'not_found';
+
+  constructor(options: AirtableErrorOptions = {}) {
+    super(
+      `Airtable could not find ${describeBase(options.base)}.`,
+      'Check base_id in the config. Base IDs start with "app" and appear in the base URL.',
+      options,
+    );
+  }
+}
+
+export class AirtableRateLimitError extends AirtableApiError {
+  readonly code = 'rate_limited';
+
+  constructor(options: AirtableErrorOptions = {}) {
+    super(
+      `Airtable kept rate limiting requests for ${describeBase(options.base)}.`,
+      'Wait a minute and try again, raise max_retries, or avoid running several airtypes processes against the same base at once.',
+      options,
+    );
+  }
+}
+
+export class AirtableNetworkError extends AirtableApiError {
+  readonly code = 'network';
+  readonly detail: string;
+
+  constructor(detail: string, options: AirtableErrorOptions = {}) {
+    super(
+      `Could not reach Airtable while fetching ${describeBase(options.base)}: ${detail}`,
+      'Check the network connection, api_url and any HTTPS_PROXY setting; on slow connections raise request_timeout.',
+      options,
+    );
+    this.detail = detail;
+  }
+}
+
+export class AirtableResponseError extends AirtableApiError {
+  readonly code = 'invalid_response';
+
+  constructor(detail: string, options: AirtableErrorOptions = {}) {
+    super(
+      `Unexpected Airtable response for ${describeBase(options.base)}: ${detail}`,
+      'Airtable may be having an outage; check https://status.airtable.com and try again. If api_url is set, make sure it points at the Airtable API.',
+      options,
+    );
+  }
+}
+
+export const isAirtableApiError = (error: unknown): error is AirtableApiError => error instanceof AirtableApiError;
@@ -0,0 +1,220 @@
+import type {
+  AirtableField,
+  AirtableFieldOptions,
+  AirtableSelectChoice,
+  AirtableTable,
+  DateMode,
+  GeneratorConfig,
+  SelectMode,
+  ZodSpec,
+} from './types.js';
+
+export type FieldSpecOptions = {
+  selectMode: SelectMode;
+  dates: DateMode;
+  warn?: (message: string) => void;
+  // The field's table and the other tables of its base, used to resolve lookups through linked tables.
+  table?: AirtableTable;
+  tables?: AirtableTable[];
+  // Field IDs already being resolved through linked tables; guards against lookup cycles.
+  resolving?: Set<string>;
+};
+
+const defaultFieldSpecOptions: FieldSpecOptions = {
+  selectMode: 'string',
+  dates: 'string',
+};
+
+const withOptional = (spec: ZodSpec): ZodSpec => ({ ...spec, optional: true });
+
+export const getSelectChoices = (field: AirtableField): AirtableSelectChoice[] => {
+  const options = field.options as AirtableFieldOptions | null | undefined;
+  return Array.isArray(options?.choices) ? options.choices : [];
+};
+
+const selectSpec = (field: AirtableField, selectMode: SelectMode): ZodSpec => {
+  const choices = getSelectChoices(field);
+  if (selectMode === 'string' || choices.length === 0) {
+    return { kind: 'string', optional: false };
+  }
+  return {
+    kind: 'enum',
+    optional: false,
+    values: choices.map((choice) => choice.name),
+    open: selectMode === 'open',
+  };
+};
+
+const dateSpec = (field: AirtableField, dates: DateMode): ZodSpec => {
+  if (dates === 'string') {
+    return { kind: 'string', optional: true };
+  }
+  // createdTime and lastModifiedTime carry their formatting in options.result.
+  const result = (field.options as { result?: { type?: unknown } } | null | undefined)?.result;
+  const isDateOnly = field.type === 'date' || (field.type !== 'dateTime' && result?.type === 'date');
+  return { kind: isDateOnly ? 'date' : 'dateTime', optional: true, coerce: dates === 'date' };
+};
+
+const getFieldOptions = (field: AirtableField): AirtableFieldOptions | undefined =>
+  field.options && typeof field.options === 'object' ? (field.options as AirtableFieldOptions) : undefined;
+
+const resolveLinkedField = (
+  field: AirtableField,
+  specOptions: FieldSpecOptions,
+): { field: AirtableField; table: AirtableTable } | undefined => {
+  const options = getFieldOptions(field);
+  const linkField = specOptions.table?.fields.find((candidate) => candidate.id === options?.recordLinkFieldId);
+  const linkedTableId = linkField ? getFieldOptions(linkField)?.linkedTableId : undefined;
+  const linkedTable = specOptions.tables?.find((candidate) => candidate.id === linkedTableId);
+  const linkedField = linkedTable?.fields.find((candidate) => candidate.id === options?.fieldIdInLinkedTable);
+  return linkedTable && linkedField ? { field: linkedField, table: linkedTable } : undefined;
+};
+
+// `options.result` describes the computed value; when Airtable leaves it out or marks the field invalid, lookups and
+// rollups fall back to the field they read in the linked table.
+const computedResultSpec = (field: AirtableField, specOptions: FieldSpecOptions): ZodSpec | null | undefined => {
+  const options = getFieldOptions(field);
+  if (options?.result && typeof options.result === 'object' && options.isValid !== false) {
+    return zodSpecForAirtableType(options.result, specOptions);
+  }
+  if (field.type === 'formula' || specOptions.resolving?.has(field.id)) {
+    return undefined;
+  }
+  const linked = resolveLinkedField(field, specOptions);
+  if (!linked) {
+    return undefined;
+  }
+  return zodSpecForAirtableType(linked.field, {
+    ...specOptions,
+    table: linked.table,
+    resolving: new Set([...(specOptions.resolving ?? []), field.id]),
+  });
+};
+
+export const zodSpecForAirtableType = (
+  field: AirtableField,
+  specOptions: FieldSpecOptions = defaultFieldSpecOptions,
+): ZodSpec | null => {
+  const { selectMode } = specOptions;
+  switch (field.type) {
+    case 'singleSelect':
+      return withOptional(selectSpec(field, selectMode));
+    case 'multipleSelects':
+      return { kind: 'array', optional: true, inner: selectSpec(field, selectMode) };
+    case 'url':
+    case 'email':
+    case 'phoneNumber':
+    case 'singleLineText':
+    case 'multilineText':
+    case 'richText':
+    case 'externalSyncSource':
+      return { kind: 'string', optional: true };
+    case 'aiText':
+      return { kind: 'aiText', optional: true };
+    case 'singleCollaborator':
+    case 'lastModifiedBy':
+    case 'createdBy':
+      return { kind: 'collaborator', optional: true };
+    case 'barcode':
+      return { kind: 'barcode', optional: true };
+    case 'button':
+      return { kind: 'button', optional: true };
+    case 'multipleAttachments':
+      return {
+        kind: 'array',
+        optional: true,
+        inner: { kind: 'attachment', optional: false },
+      };
+    case 'multipleCollaborators':
+      return {
+        kind: 'array',
+        optional: true,
+        inner: { kind: 'collaborator', optional: false },
+      };
+    case 'multipleRecordLinks':
+      return {
+        kind: 'array',
+        optional: true,
+        inner: { kind: 'string', optional: false },
+      };
+    case 'number':
+    case 'rating':
+    case 'duration':
+    case 'currency':
+    case 'percent':
+      return { kind: 'number', optional: true };
+    case 'count':
+    case 'autoNumber':
+      return { kind: 'number', optional: true };
+    case 'date':
+    case 'dateTime':
+    case 'lastModifiedTime':
+    case 'createdTime':
+      return dateSpec(field, specOptions.dates);
+    case 'checkbox':
+      return { kind: 'boolean', optional: true };
+    case 'lookup':
+    case 'multipleLookupValues':
+    case 'rollup':
+    case 'formula': {
+      const innerSpec = computedResultSpec(field, specOptions);
+      if (innerSpec === undefined) {
+        specOptions.warn?.(`Skipping ${field.type} field with no resolvable options.result: ${field.id}`);
+        return null;
+      }
+      if (!innerSpec) {
+        return null;
+      }
+      if (field.type === 'formula' || field.type === 'rollup') {
+        return { ...innerSpec, optional: true, errorable: true };
+      }
+      // The records API returns one value per linked record, flattening values that are lists themselves.
+      const item = innerSpec.kind === 'array' && innerSpec.inner ? innerSpec.inner : innerSpec;
+      return { kind: 'array', optional: true, inner: { ...item, optional: false } };
+    }
+    default:
+      specOptions.warn?.(`Could not convert Airtable type "${field.type}" to a Zod schema for field ${field.id}`);
+      return null;
+  }
+};
+
+const COMPUTED_FIELD_TYPES = new Set([
+  'formula',
+  'rollup',
+  'lookup',
+  'multipleLookupValues',
+  'count',
+  'autoNumber',
+  'createdTime',
+  'createdBy',
+  'lastModifiedTime',
+  'lastModifiedBy',
+  'button',
+  'aiText',
+  'externalSyncSource',
+]);
+
+export const writeSpecForAirtableType = (field: AirtableField, readSpec: ZodSpec | null): ZodSpec | null => {
+  if (!readSpec || COMPUTED_FIELD_TYPES.has(field.type)) {
+    return null;
+  }
+  switch (field.type) {
+    case 'singleCollaborator':
+      return { ...readSpec, kind: 'collaboratorWrite' };
+    case 'multipleCollaborators':
+      return { ...readSpec, inner: { kind: 'collaboratorWrite', optional: false } };
+    case 'multipleAttachments':
+      return { ...readSpec, inner: { kind: 'attachmentWrite', optional: false } };
+    case 'date':
+    case 'dateTime':
+      // Read codecs turn ISO strings into Dates; writes take Dates and send ISO strings.
+      return readSpec.coerce
+        ? { ...readSpec, kind: readSpec.kind === 'date' ? 'dateWrite' : 'dateTimeWrite' }
+        : readSpec;
+    default:
+      return readSpec;
+  }
+};
+
+export const getSelectMode = (config: GeneratorConfig, table: AirtableTable): SelectMode =>
+  config.selectModes?.[table.id] ?? config.selectModes?.[table.name] ?? config.selectMode ?? 'string';
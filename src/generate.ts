@@ -0,0 +1,639 @@
+import { relative, resolve } from 'node:path';
+import { loadTables } from './airtable.js';
+import { getEmitter } from './emitters/index.js';
+import { getSelectChoices, getSelectMode, writeSpecForAirtableType, zodSpecForAirtableType } from './fields.js';
+import { renderTableJsonSchema } from './json-schema.js';
+import { getTableLock, readLockfile, renderLockfile, updateLockfile } from './lockfile.js';
+import type { Logger } from './logger.js';
+import {
+  createIdentifierScope,
+  toCamelCase,
+  toChoicesConstName,
+  toConstStem,
+  toKebabCase,
+  toPascalCase,
+  uniqueName,
+} from './naming.js';
+import {
+  findStaleFiles,
+  GENERATED_HEADER,
+  type OutputFile,
+  readExistingFile,
+  removeStaleFiles,
+  writeOutputFiles,
+} from './output.js';
+import { applyFieldOverride, getTableOverride, isFieldIncluded, resolveFieldOverrides } from './overrides.js';
+import { applyFieldSchemaHooks, applyIdentifierHooks, filterTables, transformOutputFiles } from './plugins.js';
+import { createUnifiedDiff } from './text-diff.js';
+import type {
+  AirtableField,
+  AirtableFieldOptions,
+  AirtableTable,
+  AirtypesPlugin,
+  BaseTables,
+  Diagnostic,
+  Emitter,
+  EmitterTarget,
+  GeneratedField,
+  GeneratorConfig,
+  IdentifierAliases,
+  IdentifierContext,
+  IdentifierLock,
+  LinkedFieldMeta,
+  ParsedConfig,
+  RenderOptions,
+  TableLock,
+  TableModel,
+} from './types.js';
+
+export type RenderedTable = {
+  base: GeneratorConfig;
+  table: AirtableTable;
+  code: string;
+  path: string;
+};
+
+type RenderedOutput = {
+  files: OutputFile[];
+  tables: RenderedTable[];
+  cleanDirs: string[];
+};
+
+type TableLayout = {
+  table: AirtableTable;
+  fileName: string;
+  model: TableModel;
+};
+
+type BaseLayout = {
+  base: GeneratorConfig;
+  baseDir: string;
+  tables: TableLayout[];
+};
+
+export type GenerateOptions = {
+  includeLinks?: boolean;
+  includeRecordSchema?: boolean;
+  includeWriteSchema?: boolean;
+  includeByIdSchema?: boolean;
+  // Already loaded tables; skips fetching or reading snapshots.
+  tables?: BaseTables[];
+  // Write the files and remove stale generated ones. Without it nothing touches the filesystem.
+  write?: boolean;
+  // Accept identifiers that differ from the lockfile instead of keeping the pinned ones.
+  rename?: boolean;
+  // With `rename`, keep the previous names as `@deprecated` aliases for this run's output.
+  deprecatedAliases?: boolean;
+  logger?: Logger;
+};
+
+export type GenerateResult = RenderedOutput & {
+  outputPath: string;
+  bases: BaseTables[];
+  diagnostics: Diagnostic[];
+  lockfile?: OutputFile;
+  written: string[];
+  removedFiles: string[];
+};
+
+export type StaleBase = {
+  name: string;
+  baseId: string;
+  tables: Array<{ id: string; name: string }>;
+};
+
+export type CheckResult = {
+  upToDate: boolean;
+  stale: StaleBase[];
+  staleFiles: string[];
+  // Path of the lockfile when it differs from the names this run would pin.
+  staleLockfile?: string;
+  diff: string;
+};
+
+export type RenderTableOptions = Partial<RenderOptions> & {
+  base: GeneratorConfig;
+  target?: EmitterTarget;
+  plugins?: AirtypesPlugin[];
+  // The other tables of the base; lookups without a result type are resolved through them.
+  tables?: AirtableTable[];
+};
+
+type LayoutContext = {
+  diagnostics: Diagnostic[];
+  lock?: IdentifierLock;
+  rename?: boolean;
+  deprecatedAliases?: boolean;
+};
+
+type ModelContext = {
+  warn: (message: string) => void;
+  // Every table of the base, for lookups that resolve their type through a linked table.
+  tables?: AirtableTable[];
+  plugins: AirtypesPlugin[];
+  target: EmitterTarget;
+  lock?: TableLock;
+  rename?: boolean;
+  deprecatedAliases?: boolean;
+};
+
+const collectDiagnostics =
+  (diagnostics: Diagnostic[], base: GeneratorConfig, table: AirtableTable) =>
+  (message: string): void => {
+    diagnostics.push({ level: 'warn', message, baseId: base.baseId, tableId: table.id });
+  };
+
+const toRenderOptions = (options: Partial<RenderOptions>): RenderOptions => {
+  const includeRecordSchema = options.includeRecordSchema ?? true;
+  const includeClient = options.includeClient ?? false;
+  if (includeClient && !includeRecordSchema) {
+    throw new Error('The generated client validates records with the record schemas; drop --no-record-schema.');
+  }
+  return {
+    includeLinks: options.includeLinks ?? true,
+    includeRecordSchema,
+    includeWriteSchema: options.includeWriteSchema ?? true,
+    includeByIdSchema: options.includeByIdSchema ?? false,
+    includeClient,
+    includeFormulaBuilder: options.includeFormulaBuilder ?? false,
+    includeViews: options.includeViews ?? false,
+    dates: options.dates ?? 'string',
+  };
+};
+
+const getLinkedFieldMeta = (field: AirtableField, jsName: string): LinkedFieldMeta | null => {
+  if (field.type !== 'multipleRecordLinks') {
+    return null;
+  }
+
+  const options = field.options as AirtableFieldOptions | null | undefined;
+  const linkedTableId = options?.linkedTableId?.trim();
+  if (!linkedTableId) {
+    return null;
+  }
+
+  return { jsName, linkedTableId };
+};
+
+const buildTableModel = (
+  config: GeneratorConfig,
+  table: AirtableTable,
+  options: RenderOptions,
+  context: ModelContext,
+): TableModel => {
+  const { warn, plugins, target, lock } = context;
+  const escapeIdentifier = createIdentifierScope(warn);
+  const aliases: IdentifierAliases = {};
+  const keepAliases = context.rename === true && context.deprecatedAliases === true;
+  // Names recorded in the lockfile win over freshly derived ones until a rename is accepted. Only the name that is
+  // used gets reserved in the scope, so a losing fresh name cannot push a later identifier onto a suffix.
+  const pin = (previous: string | undefined, fresh: string, label: string): string => {
+    const current = escapeIdentifier(fresh, { preview: true });
+    if (!previous || previous === current) {
+      return escapeIdentifier(fresh);
+    }
+    if (context.rename) {
+      warn(`${label} renamed from ${previous} to ${current}.`);
+      return escapeIdentifier(fresh);
+    }
+    warn(`${label} would be renamed from ${previous} to ${current}; keeping ${previous}. Run with --rename to accept.`);
+    return escapeIdentifier(previous);
+  };
+  const hookIdentifier = (kind: IdentifierContext['kind'], name: string, field?: AirtableField): string =>
+    applyIdentifierHooks(plugins, name, { kind, table, base: config, field });
+  const selectMode = getSelectMode(config, table);
+  const basePrefixPascal = escapeIdentifier(toPascalCase(config.baseName));
+  const basePrefixCamel = escapeIdentifier(toCamelCase(config.baseName));
+  const itemNameRaw = escapeIdentifier(toPascalCase(table.name));
+  const itemName = /\.s$/.test(itemNameRaw) ? itemNameRaw.slice(0, itemNameRaw.length - 1) : itemNameRaw;
+  const tableOverride = getTableOverride(config, table);
+  const fieldOverrides = resolveFieldOverrides(tableOverride, table);
+  const tableConstName = tableOverride.constName
+    ? escapeIdentifier(tableOverride.constName)
+    : pin(
+        lock?.constName,
+        hookIdentifier('table', `${basePrefixCamel}${toPascalCase(table.name)}Table`),
+        `Table constant of "${table.name}"`,
+      );
+  const typeName = tableOverride.typeName
+    ? escapeIdentifier(tableOverride.typeName)
+    : pin(lock?.typeName, hookIdentifier('type', `${basePrefixPascal}${itemName}`), `Type name of "${table.name}"`);
+  if (keepAliases) {
+    if (lock?.constName && lock.constName !== tableConstName) {
+      aliases.constName = lock.constName;
+    }
+    if (lock?.typeName && lock.typeName !== typeName) {
+      aliases.typeName = lock.typeName;
+    }
+  }
+  const linkedFieldMap = new Map<string, LinkedFieldMeta>();
+  const imports = new Set<string>();
+
+  const includedFields = table.fields.filter((field) =>
+    isFieldIncluded(tableOverride, fieldOverrides.get(field.id), field),
+  );
+  const fields: GeneratedField[] = includedFields.map((field) => {
+    const fieldOverride = fieldOverrides.get(field.id);
+    const jsName = fieldOverride?.name
+      ? escapeIdentifier(fieldOverride.name)
+      : pin(
+          lock?.fields[field.id],
+          hookIdentifier('field', toCamelCase(field.name) || field.name, field),
+          `Field "${field.name}" (${field.id}) of "${table.name}"`,
+        );
+    const previousName = lock?.fields[field.id];
+    if (keepAliases && !fieldOverride?.name && previousName && previousName !== jsName) {
+      aliases.fields = { ...aliases.fields, [field.id]: previousName };
+    }
+    const linkMeta = getLinkedFieldMeta(field, jsName);
+    if (linkMeta) {
+      linkedFieldMap.set(jsName, linkMeta);
+    }
+    const hooked = applyFieldSchemaHooks(plugins, {
+      field,
+      table,
+      base: config,
+      target,
+      spec: zodSpecForAirtableType(field, { selectMode, dates: options.dates, warn, table, tables: context.tables }),
+    });
+    for (const line of [...hooked.imports, ...(fieldOverride?.imports ?? [])]) {
+      imports.add(line);
+    }
+    return {
+      ...field,
+      originalName: field.name,
+      jsName,
+      zodSpec: applyFieldOverride(hooked.spec, fieldOverride),
+      writeSpec: null,
+    };
+  });
+
+  const requiredTokens = config.requiredFields?.[table.id] ?? config.requiredFields?.[table.name] ?? [];
+  const requiredFields = new Set<string>();
+  const tokenMap = new Map<string, string>();
+  for (const field of fields) {
+    tokenMap.set(field.id, field.jsName);
+    tokenMap.set(field.originalName, field.jsName);
+    tokenMap.set(field.jsName, field.jsName);
+  }
+
+  if (requiredTokens.length > 0) {
+    for (const token of requiredTokens) {
+      const jsName = tokenMap.get(token);
+      if (!jsName) {
+        throw new Error(`Unknown required field "${token}" for table "${table.name}" (${table.id})`);
+      }
+      requiredFields.add(jsName);
+    }
+  }
+
+  const resolvedFields = fields.map((field) => {
+    if (!field.zodSpec) {
+      return field;
+    }
+    const zodSpec =
+      requiredFields.size > 0 ? { ...field.zodSpec, optional: !requiredFields.has(field.jsName) } : field.zodSpec;
+    return { ...field, zodSpec, writeSpec: writeSpecForAirtableType(field, zodSpec) };
+  });
+
+  // Views and choice consts are named after the pinned table const and field names, so they only change with them.
+  const constStem = toConstStem(tableConstName);
+  const namedViewsEntry = config.namedViews?.[table.id] ?? config.namedViews?.[table.name];
+  const namedViews = namedViewsEntry
+    ? {
+        constName: escapeIdentifier(`${constStem}Views`),
+        views: Object.entries(namedViewsEntry).map(([name, id]) => ({ key: escapeIdentifier(name), id })),
+      }
+    : null;
+
+  const viewFieldNames = new Map(
+    resolvedFields.filter((field) => field.zodSpec !== null).map((field) => [field.id, field.jsName]),
+  );
+  const views = options.includeViews
+    ? {
+        constName: escapeIdentifier(`${constStem}AllViews`),
+        views: table.views.map((view) => ({
+          name: view.name,
+          id: view.id,
+          type: view.type,
+          fields: view.visibleFieldIds
+            ? view.visibleFieldIds.flatMap((fieldId) => viewFieldNames.get(fieldId) ?? [])
+            : null,
+        })),
+      }
+    : null;
+
+  const choiceSets =
+    selectMode === 'string'
+      ? []
+      : resolvedFields
+          .filter((field) => field.type === 'singleSelect' || field.type === 'multipleSelects')
+          .map((field) => ({ field, choices: getSelectChoices(field) }))
+          .filter(({ choices }) => choices.length > 0)
+          .map(({ field, choices }) => ({
+            fieldId: field.id,
+            constName: escapeIdentifier(toChoicesConstName(constStem, field.jsName)),
+            choices,
+          }));
+
+  return {
+    base: config,
+    table,
+    selectMode,
+    basePrefixCamel,
+    itemName,
+    typeName,
+    tableConstName,
+    fields: resolvedFields,
+    requiredFields: [...requiredFields],
+    links: [...linkedFieldMap.values()],
+    namedViews,
+    views,
+    choiceSets,
+    imports: [...imports],
+    aliases,
+  };
+};
+
+const generateHeader = (emitter: Emitter, options: RenderOptions, imports: string[] = []): string =>
+  [
+    GENERATED_HEADER,
+    '/* eslint-disable */',
+    ...emitter.imports,
+    ...imports,
+    '',
+    ...emitter.renderRuntime(options),
+  ].join('\n');
+
+export const getOutputPath = (config: ParsedConfig): string => {
+  if (!config.formats.includes('zod')) {
+    return config.jsonSchemaDir;
+  }
+  return config.outputMode === 'split' ? config.outDir : config.output;
+};
+
+const RUNTIME_MODULE = '_runtime';
+
+const renderRuntimeImport = (code: string, runtime: string, from: string): string => {
+  const used = [...runtime.matchAll(/^export (const|type|interface|function|class) (\w+)/gm)]
+    .filter((match) => new RegExp(`\\b${match[2]}\\b`).test(code))
+    .map((match) => (match[1] === 'type' || match[1] === 'interface' ? `type ${match[2]}` : match[2]));
+  return used.length > 0 ? `import { ${used.join(', ')} } from '${from}';\n` : '';
+};
+
+// Split modules and JSON Schema files share one directory layout so their names line up.
+const layoutBases = (
+  bases: BaseTables[],
+  renderOptions: RenderOptions,
+  config: Pick<ParsedConfig, 'plugins' | 'target'>,
+  context: LayoutContext,
+): BaseLayout[] => {
+  const usedBaseDirs = new Set<string>([RUNTIME_MODULE, 'index']);
+  return bases.map(({ base, tables }) => {
+    const usedTableFiles = new Set<string>(['index']);
+    return {
+      base,
+      baseDir: uniqueName(toKebabCase(base.baseName) || base.baseId, usedBaseDirs),
+      tables: tables.map((table) => ({
+        table,
+        fileName: uniqueName(toKebabCase(table.name) || table.id, usedTableFiles),
+        model: buildTableModel(base, table, renderOptions, {
+          warn: collectDiagnostics(context.diagnostics, base, table),
+          tables,
+          plugins: config.plugins,
+          target: config.target,
+          lock: context.lock ? getTableLock(context.lock, base.baseId, table.id) : undefined,
+          rename: context.rename,
+          deprecatedAliases: context.deprecatedAliases,
+        }),
+      })),
+    };
+  });
+};
+
+const renderSingleOutput = (
+  outputPath: string,
+  layout: BaseLayout[],
+  emitter: Emitter,
+  renderOptions: RenderOptions,
+): Pick<RenderedOutput, 'files' | 'tables'> => {
+  const generatedBlocks: string[] = [];
+  const tables: RenderedTable[] = [];
+  const imports = new Set(layout.flatMap((base) => base.tables.flatMap((table) => table.model.imports)));
+
+  for (const { base, tables: baseTables } of layout) {
+    generatedBlocks.push(`// Base: ${base.baseName}`);
+    for (const { table, model } of baseTables) {
+      const code = emitter.renderTable(model, renderOptions);
+      tables.push({ base, table, code, path: outputPath });
+      generatedBlocks.push(code);
+      generatedBlocks.push('');
+    }
+  }
+
+  return {
+    files: [
+      {
+        path: outputPath,
+        contents: `${`${generateHeader(emitter, renderOptions, [...imports])}${generatedBlocks.join('\n')}`.trimEnd()}\n`,
+      },
+    ],
+    tables,
+  };
+};
+
+const renderSplitOutput = (
+  outDir: string,
+  layout: BaseLayout[],
+  emitter: Emitter,
+  renderOptions: RenderOptions,
+): Pick<RenderedOutput, 'files' | 'tables'> => {
+  const runtime = generateHeader(emitter, renderOptions);
+  const files: OutputFile[] = [{ path: resolve(outDir, `${RUNTIME_MODULE}.ts`), contents: `${runtime.trimEnd()}\n` }];
+  const tables: RenderedTable[] = [];
+  const rootExports = [`export * from './${RUNTIME_MODULE}.js';`];
+
+  for (const { base, baseDir, tables: baseTables } of layout) {
+    const baseExports: string[] = [];
+
+    for (const { table, fileName, model } of baseTables) {
+      const code = emitter.renderTable(model, renderOptions);
+      const path = resolve(outDir, baseDir, `${fileName}.ts`);
+      const imports = [
+        ...[...emitter.imports, ...model.imports].map((line) => `${line}\n`),
+        renderRuntimeImport(code, runtime, `../${RUNTIME_MODULE}.js`),
+      ];
+      files.push({ path, contents: `${GENERATED_HEADER}\n/* eslint-disable */\n${imports.join('')}\n${code}\n` });
+      tables.push({ base, table, code, path });
+      baseExports.push(`export * from './${fileName}.js';`);
+    }
+
+    files.push({
+      path: resolve(outDir, baseDir, 'index.ts'),
+      contents: `${GENERATED_HEADER}\n// Base: ${base.baseName}\n${baseExports.join('\n')}\n`,
+    });
+    rootExports.push(`export * from './${baseDir}/index.js';`);
+  }
+
+  files.push({ path: resolve(outDir, 'index.ts'), contents: `${GENERATED_HEADER}\n${rootExports.join('\n')}\n` });
+
+  return { files, tables };
+};
+
+const renderJsonSchemaOutput = (dir: string, layout: BaseLayout[]): Pick<RenderedOutput, 'files' | 'tables'> => {
+  const files: OutputFile[] = [];
+  const tables: RenderedTable[] = [];
+  for (const { base, baseDir, tables: baseTables } of layout) {
+    const generatedTableIds = new Set(baseTables.map(({ table }) => table.id));
+    for (const { table, fileName, model } of baseTables) {
+      const path = resolve(dir, baseDir, `${fileName}.schema.json`);
+      const code = renderTableJsonSchema(model, generatedTableIds);
+      files.push({ path, contents: code });
+      tables.push({ base, table, code, path });
+    }
+  }
+  return { files, tables };
+};
+
+const renderOutput = (config: ParsedConfig, layout: BaseLayout[], renderOptions: RenderOptions): RenderedOutput => {
+  const emitter = getEmitter(config.target);
+  const rendered: RenderedOutput = { files: [], tables: [], cleanDirs: [] };
+  const add = (output: Pick<RenderedOutput, 'files' | 'tables'>, cleanDir?: string): void => {
+    rendered.files.push(...output.files);
+    rendered.tables.push(...output.tables);
+    if (cleanDir && !rendered.cleanDirs.includes(cleanDir)) {
+      rendered.cleanDirs.push(cleanDir);
+    }
+  };
+
+  if (config.formats.includes('zod')) {
+    if (config.outputMode === 'split') {
+      add(renderSplitOutput(config.outDir, layout, emitter, renderOptions), config.outDir);
+    } else {
+      add(renderSingleOutput(config.output, layout, emitter, renderOptions));
+    }
+  }
+  if (config.formats.includes('jsonschema')) {
+    add(renderJsonSchemaOutput(config.jsonSchemaDir, layout), config.jsonSchemaDir);
+  }
+
+  return { ...rendered, files: transformOutputFiles(config.plugins, rendered.files) };
+};
+
+const findStaleOutputFiles = ({ files, cleanDirs }: RenderedOutput): string[] => [
+  ...new Set(cleanDirs.flatMap((dir) => findStaleFiles(dir, files))),
+];
+
+const removeStaleOutputFiles = ({ files, cleanDirs }: RenderedOutput): string[] => [
+  ...new Set(cleanDirs.flatMap((dir) => removeStaleFiles(dir, files))),
+];
+
+export const renderRuntime = (options: Partial<RenderOptions> & { target?: EmitterTarget } = {}): string =>
+  generateHeader(getEmitter(options.target ?? 'zod'), toRenderOptions(options));
+
+export const renderTable = (
+  table: AirtableTable,
+  options: RenderTableOptions,
+): { code: string; imports: string[]; diagnostics: Diagnostic[] } => {
+  const diagnostics: Diagnostic[] = [];
+  const renderOptions = toRenderOptions(options);
+  const target = options.target ?? 'zod';
+  const model = buildTableModel(options.base, table, renderOptions, {
+    warn: collectDiagnostics(diagnostics, options.base, table),
+    tables: options.tables,
+    plugins: options.plugins ?? [],
+    target,
+  });
+  return { code: getEmitter(target).renderTable(model, renderOptions), imports: model.imports, diagnostics };
+};
+
+// Models exactly as `generate` builds them (overrides, plugin hooks, lockfile names) for tools that skip rendering.
+export const buildTableModels = (
+  config: ParsedConfig,
+  bases: BaseTables[],
+): { models: TableModel[]; diagnostics: Diagnostic[] } => {
+  const diagnostics: Diagnostic[] = [];
+  const layout = layoutBases(filterTables(config.plugins, bases), toRenderOptions({ dates: config.dates }), config, {
+    diagnostics,
+    lock: config.lockfile ? readLockfile(config.lockfile) : undefined,
+  });
+  return { models: layout.flatMap((base) => base.tables.map((table) => table.model)), diagnostics };
+};
+
+export const generate = async (config: ParsedConfig, options: GenerateOptions = {}): Promise<GenerateResult> => {
+  const bases = filterTables(config.plugins, options.tables ?? (await loadTables(config, options.logger)));
+  const diagnostics: Diagnostic[] = [];
+  const renderOptions = toRenderOptions({
+    ...options,
+    includeByIdSchema: options.includeByIdSchema ?? config.byIdSchema,
+    dates: config.dates,
+    includeClient: config.client,
+    includeFormulaBuilder: config.formulaBuilder,
+    includeViews: config.emitViews,
+  });
+  const lock = config.lockfile ? readLockfile(config.lockfile) : undefined;
+  const layout = layoutBases(bases, renderOptions, config, {
+    diagnostics,
+    lock,
+    rename: options.rename,
+    deprecatedAliases: options.deprecatedAliases,
+  });
+  const rendered = renderOutput(config, layout, renderOptions);
+  const lockfile =
+    config.lockfile && lock
+      ? {
+          path: config.lockfile,
+          contents: renderLockfile(
+            updateLockfile(
+              lock,
+              layout.flatMap((base) => base.tables.map((table) => table.model)),
+            ),
+          ),
+        }
+      : undefined;
+  const written = options.write ? writeOutputFiles(lockfile ? [...rendered.files, lockfile] : rendered.files) : [];
+  const removedFiles = options.write ? removeStaleOutputFiles(rendered) : [];
+  return { ...rendered, outputPath: getOutputPath(config), bases, diagnostics, lockfile, written, removedFiles };
+};
+
+// The lockfile counts as output, so `--check` fails when pinned names are missing or outdated.
+export const checkOutput = (result: RenderedOutput & { lockfile?: OutputFile }, cwd = process.cwd()): CheckResult => {
+  const files = result.lockfile ? [...result.files, result.lockfile] : result.files;
+  const existingFiles = new Map(files.map((file) => [file.path, readExistingFile(file.path) ?? '']));
+  const staleFiles = findStaleOutputFiles(result);
+  const upToDate = staleFiles.length === 0 && files.every((file) => existingFiles.get(file.path) === file.contents);
+  const stale: StaleBase[] = [];
+  for (const { base, table, code, path } of result.tables) {
+    if (existingFiles.get(path)?.includes(code)) {
+      continue;
+    }
+    let entry = stale.find((candidate) => candidate.baseId === base.baseId);
+    if (!entry) {
+      entry = { name: base.baseName, baseId: base.baseId, tables: [] };
+      stale.push(entry);
+    }
+    if (!entry.tables.some((candidate) => candidate.id === table.id)) {
+      entry.tables.push({ id: table.id, name: table.name });
+    }
+  }
+
+  const toDiffPath = (path: string): string => relative(cwd, path) || path;
+  const diff = [
+    ...files.map((file) =>
+      createUnifiedDiff(existingFiles.get(file.path) ?? '', file.contents, {
+        fromFile: `a/${toDiffPath(file.path)}`,
+        toFile: `b/${toDiffPath(file.path)}`,
+      }),
+    ),
+    ...staleFiles.map((path) =>
+      createUnifiedDiff(readExistingFile(path) ?? '', '', { fromFile: `a/${toDiffPath(path)}`, toFile: '/dev/null' }),
+    ),
+  ].join('');
+
+  const staleLockfile =
+    result.lockfile && existingFiles.get(result.lockfile.path) !== result.lockfile.contents
+      ? result.lockfile.path
+      : undefined;
+
+  return { upToDate, stale, staleFiles, ...(staleLockfile ? { staleLockfile } : {}), diff };
+};
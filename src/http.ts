@@ -0,0 +1,115 @@
+import { EnvHttpProxyAgent, fetch as proxyFetch } from 'undici';
+import { AirtableNetworkError } from './errors.js';
+import type { Logger } from './logger.js';
+
+export const DEFAULT_API_URL = 'https://api.airtable.com';
+export const DEFAULT_REQUEST_TIMEOUT_SECONDS = 30;
+export const DEFAULT_MAX_RETRIES = 5;
+
+// Airtable allows 5 requests per second per base; spacing every request keeps multi-base runs under it too.
+const REQUESTS_PER_SECOND = 5;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+export type HttpClientOptions = {
+  apiKey: string;
+  apiUrl?: string;
+  timeoutSeconds?: number;
+  maxRetries?: number;
+  logger?: Logger;
+};
+
+export type HttpClient = {
+  apiUrl: string;
+  request: (path: string) => Promise<Response>;
+};
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const getBackoffDelay = (attempt: number): number => {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+};
+
+const describeError = (error: unknown): string => {
+  if (error instanceof Error) {
+    const cause = error.cause instanceof Error ? `: ${error.cause.message}` : '';
+    return `${error.message}${cause}`;
+  }
+  return String(error);
+};
+
+const hasProxyEnv = (): boolean =>
+  Boolean(process.env.HTTPS_PROXY ?? process.env.https_proxy ?? process.env.HTTP_PROXY ?? process.env.http_proxy);
+
+export const createHttpClient = (options: HttpClientOptions): HttpClient => {
+  const apiUrl = (options.apiUrl ?? DEFAULT_API_URL).replace(/\/+$/, '');
+  const timeoutMs = (options.timeoutSeconds ?? DEFAULT_REQUEST_TIMEOUT_SECONDS) * 1000;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const logger = options.logger;
+  let nextSlot = 0;
+
+  // Node's fetch ignores proxy variables; undici's agent honours HTTPS_PROXY, HTTP_PROXY and NO_PROXY.
+  const proxyAgent = hasProxyEnv() ? new EnvHttpProxyAgent() : undefined;
+
+  const waitForSlot = async (): Promise<void> => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + 1000 / REQUESTS_PER_SECOND;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  };
+
+  const request = async (path: string): Promise<Response> => {
+    const url = `${apiUrl}${path}`;
+    for (let attempt = 0; ; attempt += 1) {
+      await waitForSlot();
+      let response: Response;
+      try {
+        const init = { headers: { Authorization: `Bearer ${options.apiKey}` }, signal: AbortSignal.timeout(timeoutMs) };
+        // undici's Response only differs from the global one in its stream typings.
+        response = proxyAgent
+          ? ((await proxyFetch(url, { ...init, dispatcher: proxyAgent })) as unknown as Response)
+          : await fetch(url, init);
+      } catch (error) {
+        const message =
+          error instanceof Error && error.name === 'TimeoutError'
+            ? `timed out after ${timeoutMs / 1000}s`
+            : describeError(error);
+        if (attempt >= maxRetries) {
+          throw new AirtableNetworkError(`request to ${url} failed: ${message}`, { cause: error });
+        }
+        const delay = getBackoffDelay(attempt);
+        logger?.debug(`Request to ${url} failed (${message}), retrying in ${Math.round(delay / 1000)}s...`);
+        await sleep(delay);
+        continue;
+      }
+
+      if (!isRetryableStatus(response.status) || attempt >= maxRetries) {
+        return response;
+      }
+      const delay = parseRetryAfter(response.headers.get('retry-after')) ?? getBackoffDelay(attempt);
+      logger?.debug(`Request to ${url} returned ${response.status}, retrying in ${Math.round(delay / 1000)}s...`);
+      await response.body?.cancel();
+      await sleep(delay);
+    }
+  };
+
+  return { apiUrl, request };
+};
@@ -0,0 +1,269 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, extname, join, resolve } from 'node:path';
+import toml from '@iarna/toml';
+import { fetchBaseSchema, listBases } from './airtable.js';
+import type { RawConfig } from './config.js';
+import type { HttpClient } from './http.js';
+import type { Logger } from './logger.js';
+import { toKebabCase, uniqueName } from './naming.js';
+import type { AirtableBase, AirtableTable } from './types.js';
+
+export type ConfigFormat = 'toml' | 'json' | 'yaml' | 'js';
+
+export const CONFIG_FORMATS: ConfigFormat[] = ['toml', 'json', 'yaml', 'js'];
+
+const CONFIG_FILE_NAMES: Record<ConfigFormat, string> = {
+  toml: 'airtypes.config.toml',
+  json: 'airtypes.config.json',
+  yaml: 'airtypes.config.yaml',
+  js: 'airtypes.config.mjs',
+};
+
+const EXTENSION_FORMATS: Record<string, ConfigFormat> = {
+  '.toml': 'toml',
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.js': 'js',
+  '.mjs': 'js',
+  '.cjs': 'js',
+};
+
+export type InitOptions = {
+  cwd: string;
+  path?: string;
+  format?: string;
+  apiKeyEnv: string;
+  bases?: string[];
+  tables?: string[];
+  force: boolean;
+};
+
+export type InitContext = {
+  client: HttpClient;
+  // Omitted when there is no terminal to prompt on; every base and table is selected instead.
+  ask?: (question: string) => Promise<string>;
+  logger?: Logger;
+};
+
+export type ConfigTarget = {
+  path: string;
+  format: ConfigFormat;
+  // JS configs are written with `module.exports` where Node would load them as CommonJS.
+  commonJs: boolean;
+};
+
+export type InitResult = {
+  configPath: string;
+  format: ConfigFormat;
+  bases: Array<{ name: string; baseId: string; tableCount: number; tableIds?: string[] }>;
+};
+
+const parseFormat = (format: string): ConfigFormat => {
+  if (!CONFIG_FORMATS.includes(format as ConfigFormat)) {
+    throw new Error(`Unknown config format "${format}". Use ${CONFIG_FORMATS.join(', ')}.`);
+  }
+  return format as ConfigFormat;
+};
+
+// `.js` files are CommonJS unless the nearest package.json says `"type": "module"`, as in Node.
+const isCommonJsPath = (path: string): boolean => {
+  const extension = extname(path).toLowerCase();
+  if (extension !== '.js') {
+    return extension === '.cjs';
+  }
+  for (let dir = dirname(path); ; dir = dirname(dir)) {
+    const packageJson = join(dir, 'package.json');
+    if (existsSync(packageJson)) {
+      return (JSON.parse(readFileSync(packageJson, 'utf8')) as { type?: unknown }).type !== 'module';
+    }
+    if (dirname(dir) === dir) {
+      return true;
+    }
+  }
+};
+
+export const resolveConfigTarget = (options: Pick<InitOptions, 'cwd' | 'path' | 'format'>): ConfigTarget => {
+  if (!options.path) {
+    const format = parseFormat(options.format ?? 'toml');
+    return { path: resolve(options.cwd, CONFIG_FILE_NAMES[format]), format, commonJs: false };
+  }
+  const path = resolve(options.cwd, options.path);
+  const format = options.format ? parseFormat(options.format) : EXTENSION_FORMATS[extname(path).toLowerCase()];
+  if (!format) {
+    throw new Error(`Cannot infer the config format of "${options.path}". Pass --config-format.`);
+  }
+  return { path, format, commonJs: format === 'js' && isCommonJsPath(path) };
+};
+
+const renderYaml = (value: unknown, indent = ''): string => {
+  if (Array.isArray(value)) {
+    return value
+      .map((entry) => {
+        const rendered = renderYaml(entry, `${indent}  `);
+        return typeof entry === 'object' && entry !== null
+          ? `${indent}- ${rendered.trimStart()}`
+          : `${indent}- ${rendered}`;
+      })
+      .join('\n');
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .map(([key, entry]) =>
+        typeof entry === 'object' && entry !== null
+          ? `${indent}${key}:\n${renderYaml(entry, `${indent}  `)}`
+          : `${indent}${key}: ${renderYaml(entry)}`,
+      )
+      .join('\n');
+  }
+  // JSON strings are valid double-quoted YAML scalars.
+  return JSON.stringify(value);
+};
+
+export const renderConfigFile = (config: RawConfig, format: ConfigFormat, commonJs = false): string => {
+  // Round-trip through JSON to drop undefined keys, which the TOML writer rejects.
+  const plain = JSON.parse(JSON.stringify(config)) as toml.JsonMap;
+  switch (format) {
+    case 'toml':
+      return toml.stringify(plain);
+    case 'json':
+      return `${JSON.stringify(plain, null, 2)}\n`;
+    case 'yaml':
+      return `${renderYaml(plain)}\n`;
+    case 'js':
+      return `${commonJs ? 'module.exports =' : 'export default'} ${JSON.stringify(plain, null, 2)};\n`;
+  }
+};
+
+const matchesToken = (item: { id: string; name: string }, token: string): boolean =>
+  item.id === token || item.name === token;
+
+// Accepts 1-based indexes, ranges like 2-4, IDs or names; an empty answer or "all" selects everything.
+const parseSelection = <T extends { id: string; name: string }>(answer: string, items: T[]): T[] | string => {
+  const tokens = answer
+    .split(',')
+    .map((token) => token.trim())
+    .filter(Boolean);
+  if (tokens.length === 0 || (tokens.length === 1 && tokens[0].toLowerCase() === 'all')) {
+    return items;
+  }
+  const selected = new Set<T>();
+  for (const token of tokens) {
+    const range = /^(\d+)(?:-(\d+))?$/.exec(token);
+    if (range) {
+      const start = Number(range[1]);
+      const end = Number(range[2] ?? range[1]);
+      if (start < 1 || end > items.length || start > end) {
+        return `"${token}" is out of range (1-${items.length}).`;
+      }
+      for (let index = start; index <= end; index += 1) {
+        selected.add(items[index - 1]);
+      }
+      continue;
+    }
+    const match = items.find((item) => matchesToken(item, token));
+    if (!match) {
+      return `"${token}" does not match any entry.`;
+    }
+    selected.add(match);
+  }
+  return items.filter((item) => selected.has(item));
+};
+
+const promptSelection = async <T extends { id: string; name: string }>(
+  ask: NonNullable<InitContext['ask']>,
+  title: string,
+  items: T[],
+): Promise<T[]> => {
+  const list = items.map((item, index) => `  ${index + 1}. ${item.name} (${item.id})`).join('\n');
+  let note = '';
+  for (;;) {
+    const answer = await ask(`${note}${title}\n${list}\nSelect by number, range, ID or name, comma-separated [all]: `);
+    const selection = parseSelection(answer, items);
+    if (typeof selection !== 'string') {
+      return selection;
+    }
+    note = `${selection}\n`;
+  }
+};
+
+const selectBases = async (
+  bases: AirtableBase[],
+  options: InitOptions,
+  context: InitContext,
+): Promise<AirtableBase[]> => {
+  if (options.bases && options.bases.length > 0) {
+    return options.bases.map((token) => {
+      const match = bases.find((base) => matchesToken(base, token));
+      if (!match) {
+        throw new Error(`Base "${token}" is not accessible with this API key.`);
+      }
+      return match;
+    });
+  }
+  return context.ask ? promptSelection(context.ask, 'Bases:', bases) : bases;
+};
+
+const selectTables = async (
+  base: AirtableBase,
+  tables: AirtableTable[],
+  options: InitOptions,
+  context: InitContext,
+): Promise<AirtableTable[]> => {
+  if (options.tables && options.tables.length > 0) {
+    // --table applies across every selected base; a base without matches keeps all of its tables.
+    const matched = tables.filter((table) => options.tables?.some((token) => matchesToken(table, token)));
+    return matched.length > 0 ? matched : tables;
+  }
+  return context.ask ? promptSelection(context.ask, `Tables in ${base.name}:`, tables) : tables;
+};
+
+export const runInit = async (options: InitOptions, context: InitContext): Promise<InitResult> => {
+  const target = resolveConfigTarget(options);
+  if (existsSync(target.path) && !options.force) {
+    throw new Error(`${target.path} already exists. Pass --force to overwrite it.`);
+  }
+
+  context.logger?.debug('Listing accessible bases...');
+  const accessible = await listBases(context.client);
+  if (accessible.length === 0) {
+    throw new Error(
+      'The API key cannot access any bases. Add bases to the token at https://airtable.com/create/tokens.',
+    );
+  }
+
+  const selectedBases = await selectBases(accessible, options, context);
+  const usedNames = new Set<string>();
+  const bases: InitResult['bases'] = [];
+  const matchedTokens = new Set<string>();
+  for (const base of selectedBases) {
+    context.logger?.debug(`Fetching schema for ${base.name} (${base.id})...`);
+    const tables = await fetchBaseSchema(base.id, context.client, { baseName: base.name });
+    const selected = await selectTables(base, tables, options, context);
+    for (const token of options.tables ?? []) {
+      if (tables.some((table) => matchesToken(table, token))) {
+        matchedTokens.add(token);
+      }
+    }
+    bases.push({
+      name: uniqueName(toKebabCase(base.name) || base.id, usedNames),
+      baseId: base.id,
+      tableCount: selected.length,
+      tableIds: selected.length < tables.length ? selected.map((table) => table.id) : undefined,
+    });
+  }
+  const unmatched = (options.tables ?? []).filter((token) => !matchedTokens.has(token));
+  if (unmatched.length > 0) {
+    throw new Error(`Table "${unmatched[0]}" was not found in the selected bases.`);
+  }
+
+  const config: RawConfig = {
+    api_key_env: options.apiKeyEnv,
+    output: 'airtable-types.ts',
+    bases: bases.map((base) => ({ name: base.name, base_id: base.baseId, table_ids: base.tableIds })),
+  };
+  writeFileSync(target.path, renderConfigFile(config, target.format, target.commonJs), 'utf8');
+
+  return { configPath: target.path, format: target.format, bases };
+};
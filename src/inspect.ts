@@ -0,0 +1,122 @@
+import { asInnerSpec } from './emitters/shared.js';
+import { renderZodSpec } from './emitters/zod.js';
+import { buildTableModels } from './generate.js';
+import type { BaseTables, Diagnostic, ParsedConfig } from './types.js';
+
+// `unsupported` fields have no Zod conversion; `excluded` ones are dropped by overrides or plugin filters.
+export type InspectedFieldStatus = 'ok' | 'unsupported' | 'excluded';
+
+export type InspectedField = {
+  id: string;
+  name: string;
+  type: string;
+  jsName: string | null;
+  zodType: string | null;
+  optional: boolean;
+  status: InspectedFieldStatus;
+};
+
+export type InspectedView = {
+  id: string;
+  name: string;
+  type: string;
+  // Null when the schema source did not include visible fields (non-grid views, older snapshots).
+  visibleFieldCount: number | null;
+};
+
+export type InspectedTable = {
+  id: string;
+  name: string;
+  typeName: string | null;
+  tableConstName: string | null;
+  fields: InspectedField[];
+  views: InspectedView[];
+};
+
+export type InspectedBase = {
+  name: string;
+  baseId: string;
+  tables: InspectedTable[];
+};
+
+export type InspectReport = {
+  bases: InspectedBase[];
+};
+
+export const inspectBases = (
+  config: ParsedConfig,
+  bases: BaseTables[],
+): { report: InspectReport; diagnostics: Diagnostic[] } => {
+  const { models, diagnostics } = buildTableModels(config, bases);
+  const report: InspectReport = {
+    bases: bases.map(({ base, tables }) => ({
+      name: base.baseName,
+      baseId: base.baseId,
+      tables: tables.map((table) => {
+        const model = models.find((candidate) => candidate.base === base && candidate.table.id === table.id);
+        return {
+          id: table.id,
+          name: table.name,
+          typeName: model?.typeName ?? null,
+          tableConstName: model?.tableConstName ?? null,
+          fields: table.fields.map((field) => {
+            const generated = model?.fields.find((candidate) => candidate.id === field.id);
+            const spec = generated?.zodSpec;
+            return {
+              id: field.id,
+              name: field.name,
+              type: field.type,
+              jsName: generated?.jsName ?? null,
+              zodType: spec ? renderZodSpec(asInnerSpec(spec)) : null,
+              optional: spec?.optional ?? false,
+              status: !generated ? 'excluded' : spec ? 'ok' : 'unsupported',
+            };
+          }),
+          views: table.views.map((view) => ({
+            id: view.id,
+            name: view.name,
+            type: view.type,
+            visibleFieldCount: view.visibleFieldIds?.length ?? null,
+          })),
+        };
+      }),
+    })),
+  };
+  return { report, diagnostics };
+};
+
+const formatField = (field: InspectedField): string => {
+  const source = `${field.name} (${field.id}) ${field.type}`;
+  if (field.status === 'excluded') {
+    return `${source} [excluded]`;
+  }
+  if (field.status === 'unsupported') {
+    return `${source} -> ${field.jsName} [unsupported]`;
+  }
+  return `${source} -> ${field.jsName}${field.optional ? '?' : ''}: ${field.zodType}`;
+};
+
+const formatView = (view: InspectedView): string => {
+  const visible = view.visibleFieldCount === null ? '' : `, ${view.visibleFieldCount} visible fields`;
+  return `${view.name} (${view.id}) ${view.type}${visible}`;
+};
+
+export const formatInspectReport = (report: InspectReport): string => {
+  const lines: string[] = [];
+  for (const base of report.bases) {
+    lines.push(`${base.name} (${base.baseId}): ${base.tables.length} tables`);
+    for (const table of base.tables) {
+      const names = table.typeName ? ` -> ${table.typeName}, ${table.tableConstName}` : ' [excluded]';
+      lines.push(`  ${table.name} (${table.id})${names}`);
+      lines.push(`    fields (${table.fields.length})`);
+      for (const field of table.fields) {
+        lines.push(`      ${formatField(field)}`);
+      }
+      lines.push(`    views (${table.views.length})`);
+      for (const view of table.views) {
+        lines.push(`      ${formatView(view)}`);
+      }
+    }
+  }
+  return lines.join('\n');
+};
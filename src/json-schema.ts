@@ -0,0 +1,245 @@
+import { GENERATED_MARKER } from './output.js';
+import type { GeneratedField, TableModel, ZodSpec } from './types.js';
+
+type JsonSchema = Record<string, unknown>;
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+const thumbnailDef: JsonSchema = {
+  type: 'object',
+  properties: {
+    url: { type: 'string' },
+    width: { type: 'number' },
+    height: { type: 'number' },
+  },
+  required: ['url', 'width', 'height'],
+};
+
+const cellDefs: Record<string, JsonSchema> = {
+  attachment: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      url: { type: 'string' },
+      filename: { type: 'string' },
+      size: { type: 'number' },
+      type: { type: 'string' },
+      width: { type: 'number' },
+      height: { type: 'number' },
+      thumbnails: {
+        type: 'object',
+        properties: {
+          small: { $ref: '#/$defs/thumbnail' },
+          large: { $ref: '#/$defs/thumbnail' },
+          full: { $ref: '#/$defs/thumbnail' },
+        },
+      },
+    },
+    required: ['id', 'url', 'filename', 'size', 'type'],
+  },
+  attachmentWrite: {
+    anyOf: [
+      { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+      {
+        type: 'object',
+        properties: { url: { type: 'string' }, filename: { type: 'string' } },
+        required: ['url'],
+      },
+    ],
+  },
+  collaborator: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      email: { type: 'string' },
+      name: { type: 'string' },
+      permissionLevel: { type: 'string' },
+      profilePicUrl: { type: 'string' },
+    },
+    required: ['id'],
+  },
+  collaboratorWrite: {
+    anyOf: [
+      { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+      { type: 'object', properties: { email: { type: 'string' } }, required: ['email'] },
+    ],
+  },
+  barcode: {
+    type: 'object',
+    properties: { text: { type: 'string' }, type: { type: 'string' } },
+    required: ['text'],
+  },
+  button: {
+    type: 'object',
+    properties: { label: { type: 'string' }, url: { type: ['string', 'null'] } },
+    required: ['label', 'url'],
+  },
+  aiText: {
+    type: 'object',
+    properties: {
+      state: { enum: ['empty', 'loading', 'generated', 'error'] },
+      value: { type: ['string', 'null'] },
+      isStale: { type: 'boolean' },
+      errorType: { type: 'string' },
+    },
+    required: ['state', 'value', 'isStale'],
+  },
+  formulaError: {
+    type: 'object',
+    properties: { error: { type: 'string' } },
+    required: ['error'],
+  },
+};
+
+export const getJsonSchemaId = (baseId: string, tableId: string): string => `urn:airtable:${baseId}:${tableId}`;
+
+// Formula errors and nulls widen a value schema into `anyOf`.
+const withVariants = (valueSchema: JsonSchema, spec: ZodSpec, usedDefs: Set<string>): JsonSchema => {
+  if (spec.errorable) {
+    usedDefs.add('formulaError');
+  }
+  const variants = [
+    valueSchema,
+    ...(spec.errorable ? [{ $ref: '#/$defs/formulaError' }] : []),
+    ...(spec.nullable ? [{ type: 'null' }] : []),
+  ];
+  return variants.length > 1 ? { anyOf: variants } : valueSchema;
+};
+
+const specToJsonSchema = (spec: ZodSpec, usedDefs: Set<string>): JsonSchema => {
+  switch (spec.kind) {
+    case 'string':
+      return { type: 'string' };
+    case 'number':
+      return { type: 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'record':
+      return { type: 'object' };
+    case 'object':
+      return { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] };
+    case 'enum': {
+      const values = { enum: spec.values ?? [] };
+      return spec.open ? { anyOf: [values, { type: 'string' }] } : values;
+    }
+    case 'date':
+    case 'dateWrite':
+      return { type: 'string', format: 'date' };
+    case 'dateTime':
+    case 'dateTimeWrite':
+      return { type: 'string', format: 'date-time' };
+    case 'array':
+      return {
+        type: 'array',
+        items: spec.inner ? withVariants(specToJsonSchema(spec.inner, usedDefs), spec.inner, usedDefs) : {},
+      };
+    default:
+      if (spec.kind in cellDefs) {
+        usedDefs.add(spec.kind);
+        if (spec.kind === 'attachment') {
+          usedDefs.add('thumbnail');
+        }
+        return { $ref: `#/$defs/${spec.kind}` };
+      }
+      return {};
+  }
+};
+
+// Plugin expressions are code for the TypeScript target, so the schema accepts anything and says why.
+const customSchema = (spec: ZodSpec): JsonSchema => ({
+  description: `Validated by a plugin schema that JSON Schema cannot express: ${spec.expression ?? 'unknown'}`,
+});
+
+// Links to tables that are not generated (filtered out by a plugin) use this file's own recordId definition.
+const linkItemsSchema = (model: TableModel, linkedTableId: string, generatedTableIds: Set<string>): JsonSchema => ({
+  $ref: generatedTableIds.has(linkedTableId)
+    ? `${getJsonSchemaId(model.base.baseId, linkedTableId)}#/$defs/recordId`
+    : '#/$defs/recordId',
+});
+
+const fieldToJsonSchema = (
+  model: TableModel,
+  field: GeneratedField,
+  spec: ZodSpec,
+  usedDefs: Set<string>,
+  generatedTableIds: Set<string>,
+) => {
+  const link = model.links.find((candidate) => candidate.jsName === field.jsName);
+  const valueSchema = link
+    ? { type: 'array', items: linkItemsSchema(model, link.linkedTableId, generatedTableIds) }
+    : spec.kind === 'custom'
+      ? customSchema(spec)
+      : specToJsonSchema(spec, usedDefs);
+  const schema = withVariants(valueSchema, spec, usedDefs);
+  const description = [field.description, schema.description].filter(Boolean).join('\n\n');
+
+  return {
+    ...schema,
+    title: field.originalName,
+    ...(description ? { description } : {}),
+    'x-airtable-field-id': field.id,
+    'x-airtable-field-name': field.originalName,
+    'x-airtable-field-type': field.type,
+  };
+};
+
+// `generatedTableIds` lists the tables of the base that get a schema file; links elsewhere cannot `$ref` one.
+export const renderTableJsonSchema = (model: TableModel, generatedTableIds: Set<string>): string => {
+  const usedDefs = new Set<string>();
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const field of model.fields) {
+    if (!field.zodSpec) {
+      continue;
+    }
+    properties[field.jsName] = fieldToJsonSchema(model, field, field.zodSpec, usedDefs, generatedTableIds);
+    if (!field.zodSpec.optional) {
+      required.push(field.jsName);
+    }
+  }
+
+  const defs: Record<string, JsonSchema> = {
+    recordId: { type: 'string', pattern: '^rec[A-Za-z0-9]+$' },
+    record: {
+      type: 'object',
+      properties: {
+        id: { $ref: '#/$defs/recordId' },
+        createdTime: { type: 'string', format: 'date-time' },
+        fields: { $ref: '#' },
+      },
+      required: ['id', 'fields'],
+    },
+  };
+  if (usedDefs.has('thumbnail')) {
+    defs.thumbnail = thumbnailDef;
+  }
+  for (const name of Object.keys(cellDefs)) {
+    if (usedDefs.has(name)) {
+      defs[name] = cellDefs[name];
+    }
+  }
+
+  const schema: JsonSchema = {
+    $comment: GENERATED_MARKER,
+    $schema: JSON_SCHEMA_DIALECT,
+    $id: getJsonSchemaId(model.base.baseId, model.table.id),
+    title: model.typeName,
+    description: [
+      model.table.description,
+      `Airtable table "${model.table.name}" (${model.table.id}) in base "${model.base.baseName}" (${model.base.baseId})`,
+    ]
+      .filter(Boolean)
+      .join('\n\n'),
+    'x-airtable-base-id': model.base.baseId,
+    'x-airtable-table-id': model.table.id,
+    'x-airtable-table-name': model.table.name,
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+    additionalProperties: false,
+    $defs: defs,
+  };
+
+  return `${JSON.stringify(schema, null, 2)}\n`;
+};
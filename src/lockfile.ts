@@ -0,0 +1,56 @@
+import { existsSync, readFileSync } from 'node:fs';
+import type { IdentifierLock, TableLock, TableModel } from './types.js';
+
+export const LOCKFILE_VERSION = 1;
+
+export const LOCKFILE_NAME = 'airtypes.lock.json';
+
+export const readLockfile = (lockfilePath: string): IdentifierLock => {
+  if (!existsSync(lockfilePath)) {
+    return { version: LOCKFILE_VERSION, bases: {} };
+  }
+
+  let data: Partial<IdentifierLock>;
+  try {
+    data = JSON.parse(readFileSync(lockfilePath, 'utf8')) as Partial<IdentifierLock>;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read lockfile ${lockfilePath}: ${message}`);
+  }
+
+  if (data.version !== LOCKFILE_VERSION) {
+    throw new Error(
+      `Unsupported lockfile version ${String(data.version)} in ${lockfilePath} (expected ${LOCKFILE_VERSION}).`,
+    );
+  }
+  if (!data.bases || typeof data.bases !== 'object') {
+    throw new Error(`Unexpected lockfile contents in ${lockfilePath}: missing bases.`);
+  }
+
+  return { version: LOCKFILE_VERSION, bases: data.bases };
+};
+
+export const getTableLock = (lock: IdentifierLock, baseId: string, tableId: string): TableLock | undefined =>
+  lock.bases[baseId]?.tables[tableId];
+
+// Entries for tables and fields that were not generated this time (filtered, excluded or deleted) are kept, so
+// their names come back unchanged if they return.
+export const updateLockfile = (lock: IdentifierLock, models: TableModel[]): IdentifierLock => {
+  const bases: IdentifierLock['bases'] = structuredClone(lock.bases);
+  for (const model of models) {
+    const base = bases[model.base.baseId] ?? { tables: {} };
+    const previous = base.tables[model.table.id];
+    base.tables[model.table.id] = {
+      typeName: model.typeName,
+      constName: model.tableConstName,
+      fields: {
+        ...previous?.fields,
+        ...Object.fromEntries(model.fields.map((field) => [field.id, field.jsName])),
+      },
+    };
+    bases[model.base.baseId] = base;
+  }
+  return { version: LOCKFILE_VERSION, bases };
+};
+
+export const renderLockfile = (lock: IdentifierLock): string => `${JSON.stringify(lock, null, 2)}\n`;
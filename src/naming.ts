@@ -0,0 +1,152 @@
+export const toWords = (input: string): string[] => {
+  const withSpaces = input
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[^A-Za-z0-9]+/g, ' ')
+    .trim();
+
+  if (!withSpaces) {
+    return [];
+  }
+
+  return withSpaces.split(/\s+/).filter(Boolean);
+};
+
+const capitalize = (word: string): string => {
+  if (!word) {
+    return '';
+  }
+  return word[0].toUpperCase() + word.slice(1).toLowerCase();
+};
+
+export const toCamelCase = (input: string): string => {
+  const words = toWords(input);
+  if (words.length === 0) {
+    return '';
+  }
+  return words[0].toLowerCase() + words.slice(1).map(capitalize).join('');
+};
+
+export const toPascalCase = (input: string): string => {
+  return toWords(input).map(capitalize).join('');
+};
+
+const isValidJsIdentifier = (value: string): boolean => {
+  if (!/^[$A-Z_a-z][\w$]*$/.test(value)) {
+    return false;
+  }
+  try {
+    // eslint-disable-next-line no-new, no-new-func
+    new Function(`const ${value} = 1;`);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Views and choice consts are named after the table const: `crmClientsTable` -> `crmClientsViews`.
+export const toConstStem = (tableConstName: string): string => tableConstName.replace(/Table$/, '') || tableConstName;
+
+export const toChoicesConstName = (constStem: string, fieldName: string): string =>
+  `${constStem}${toPascalCase(fieldName)}Choices`;
+
+const DEFAULT_IDENTIFIER = 'invalidIdentifier';
+
+export type IdentifierScope = (name: string, options?: { preview?: boolean }) => string;
+
+// Each generated table gets its own scope so identifiers are unique within, not across, tables.
+// `preview` returns the identifier a name would get without reserving it, counting it or warning.
+export const createIdentifierScope = (warn: (message: string) => void): IdentifierScope => {
+  let invalidIdentifierCount = 0;
+  const usedIdentifiers = new Set<string>();
+
+  return (name, options = {}) => {
+    const fallback = (message: (identifier: string) => string): string => {
+      const identifier = `${DEFAULT_IDENTIFIER}${invalidIdentifierCount + 1}`;
+      if (!options.preview) {
+        invalidIdentifierCount += 1;
+        warn(message(identifier));
+      }
+      return identifier;
+    };
+
+    const trimmed = name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .trim();
+
+    if (isValidJsIdentifier(trimmed)) {
+      return trimmed;
+    }
+
+    const sanitized = trimmed
+      .replace(/[^\p{L}\p{N}_\s]+/gu, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (/^\d+$/.test(sanitized)) {
+      return fallback(
+        (identifier) =>
+          `Invalid identifier "${name}" became purely numeric after sanitization ("${sanitized}"). Using default identifier "${identifier}".`,
+      );
+    }
+
+    let pascal = toPascalCase(sanitized);
+    if (/^\d/.test(pascal)) {
+      pascal = `_${pascal}`;
+    }
+
+    if (!isValidJsIdentifier(pascal)) {
+      const validStartIndex = pascal.search(/[$A-Za-z]/);
+      if (validStartIndex === -1) {
+        return fallback(
+          (identifier) =>
+            `Invalid identifier "${name}" contains no valid starting character after sanitization. Using default identifier "${identifier}".`,
+        );
+      }
+
+      pascal = pascal
+        .slice(validStartIndex)
+        .replace(/[^A-Za-z0-9_$]/g, '_')
+        .replace(/_+/g, '_');
+
+      pascal = toPascalCase(pascal);
+
+      if (!isValidJsIdentifier(pascal) || pascal.length === 0) {
+        return fallback(
+          (identifier) =>
+            `Invalid identifier "${name}" could not be salvaged. Using default identifier "${identifier}".`,
+        );
+      }
+    }
+
+    let finalIdentifier = pascal;
+    let counter = 2;
+    while (usedIdentifiers.has(finalIdentifier)) {
+      finalIdentifier = `${pascal}${counter}`;
+      counter += 1;
+    }
+
+    if (!options.preview) {
+      usedIdentifiers.add(finalIdentifier);
+    }
+    return finalIdentifier;
+  };
+};
+
+export const toKebabCase = (input: string): string =>
+  toWords(input)
+    .map((word) => word.toLowerCase())
+    .join('-');
+
+export const uniqueName = (name: string, used: Set<string>): string => {
+  let candidate = name;
+  let counter = 2;
+  while (used.has(candidate)) {
+    candidate = `${name}-${counter}`;
+    counter += 1;
+  }
+  used.add(candidate);
+  return candidate;
+};
@@ -0,0 +1,79 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmdirSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+
+export const GENERATED_MARKER = 'DO NOT EDIT: this file was automatically generated by airtypes';
+export const GENERATED_HEADER = `/* ${GENERATED_MARKER} */`;
+
+export type OutputFile = {
+  path: string;
+  contents: string;
+};
+
+export const readExistingFile = (path: string): string | undefined =>
+  existsSync(path) ? readFileSync(path, 'utf8') : undefined;
+
+export const writeOutputFiles = (files: OutputFile[]): string[] => {
+  const written: string[] = [];
+  for (const file of files) {
+    if (readExistingFile(file.path) === file.contents) {
+      continue;
+    }
+    const outputDir = dirname(file.path);
+    if (!existsSync(outputDir)) {
+      mkdirSync(outputDir, { recursive: true });
+    }
+    writeFileSync(file.path, file.contents, 'utf8');
+    written.push(file.path);
+  }
+  return written;
+};
+
+const isGeneratedJson = (contents: string): boolean => {
+  try {
+    const parsed: unknown = JSON.parse(contents);
+    return Boolean(
+      parsed && typeof parsed === 'object' && '$comment' in parsed && parsed.$comment === GENERATED_MARKER,
+    );
+  } catch {
+    return false;
+  }
+};
+
+const isGeneratedFile = (path: string): boolean => {
+  const contents = readFileSync(path, 'utf8');
+  return path.endsWith('.json') ? isGeneratedJson(contents) : contents.startsWith(GENERATED_HEADER);
+};
+
+const isOutputFileName = (name: string): boolean => name.endsWith('.ts') || name.endsWith('.schema.json');
+
+const listFiles = (dir: string): string[] => {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listFiles(path);
+    }
+    return entry.isFile() && isOutputFileName(entry.name) ? [path] : [];
+  });
+};
+
+export const findStaleFiles = (outDir: string, files: OutputFile[]): string[] => {
+  const expected = new Set(files.map((file) => resolve(file.path)));
+  return listFiles(outDir).filter((path) => !expected.has(resolve(path)) && isGeneratedFile(path));
+};
+
+export const removeStaleFiles = (outDir: string, files: OutputFile[]): string[] => {
+  const stale = findStaleFiles(outDir, files);
+  const root = resolve(outDir);
+  for (const path of stale) {
+    rmSync(path);
+    let dir = dirname(resolve(path));
+    while (dir !== root && dir.startsWith(root) && readdirSync(dir).length === 0) {
+      rmdirSync(dir);
+      dir = dirname(dir);
+    }
+  }
+  return stale;
+};
@@ -0,0 +1,86 @@
+import type { AirtableField, AirtableTable, FieldOverride, GeneratorConfig, TableOverride, ZodSpec } from './types.js';
+
+const globToRegExp = (pattern: string): RegExp =>
+  new RegExp(
+    `^${pattern
+      .split('')
+      .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+      .join('')}$`,
+  );
+
+const matchesAny = (patterns: string[], field: AirtableField): boolean =>
+  patterns.some((pattern) => {
+    const regex = globToRegExp(pattern);
+    return regex.test(field.name) || regex.test(field.id);
+  });
+
+// Override tables are keyed by table ID or name; checked against the whole base before `tables` scoping.
+export const validateOverrideTables = (config: GeneratorConfig, tables: AirtableTable[]): void => {
+  for (const token of Object.keys(config.overrides ?? {})) {
+    if (!tables.some((table) => table.id === token || table.name === token)) {
+      throw new Error(`Unknown override table "${token}" for base "${config.baseName}" (${config.baseId})`);
+    }
+  }
+};
+
+export const getTableOverride = (config: GeneratorConfig, table: AirtableTable): TableOverride =>
+  config.overrides?.[table.id] ?? config.overrides?.[table.name] ?? {};
+
+// Drops overrides whose table or field keys do not resolve against `tables`, e.g. an older snapshot being diffed.
+export const scopeOverrides = (config: GeneratorConfig, tables: AirtableTable[]): GeneratorConfig => {
+  if (!config.overrides) {
+    return config;
+  }
+  const matches = (item: { id: string; name: string }, token: string): boolean =>
+    item.id === token || item.name === token;
+  const overrides = Object.entries(config.overrides).flatMap(([token, override]): Array<[string, TableOverride]> => {
+    const table = tables.find((candidate) => matches(candidate, token));
+    if (!table) {
+      return [];
+    }
+    const fields = Object.entries(override.fields ?? {}).filter(([fieldToken]) =>
+      table.fields.some((field) => matches(field, fieldToken)),
+    );
+    return [[token, { ...override, fields: Object.fromEntries(fields) }]];
+  });
+  return { ...config, overrides: Object.fromEntries(overrides) };
+};
+
+// Field overrides are keyed by field ID or name; keys that match neither are reported like unknown required fields.
+export const resolveFieldOverrides = (override: TableOverride, table: AirtableTable): Map<string, FieldOverride> => {
+  const resolved = new Map<string, FieldOverride>();
+  for (const [token, fieldOverride] of Object.entries(override.fields ?? {})) {
+    const field = table.fields.find((candidate) => candidate.id === token || candidate.name === token);
+    if (!field) {
+      throw new Error(`Unknown override field "${token}" for table "${table.name}" (${table.id})`);
+    }
+    resolved.set(field.id, { ...resolved.get(field.id), ...fieldOverride });
+  }
+  return resolved;
+};
+
+export const isFieldIncluded = (
+  override: TableOverride,
+  fieldOverride: FieldOverride | undefined,
+  field: AirtableField,
+): boolean => {
+  if (fieldOverride?.exclude) {
+    return false;
+  }
+  if (override.includeFields && !matchesAny(override.includeFields, field)) {
+    return false;
+  }
+  return !(override.excludeFields && matchesAny(override.excludeFields, field));
+};
+
+export const applyFieldOverride = (spec: ZodSpec | null, fieldOverride: FieldOverride | undefined): ZodSpec | null => {
+  if (!fieldOverride) {
+    return spec;
+  }
+  const overridden: ZodSpec | null = fieldOverride.schema
+    ? { kind: 'custom', expression: fieldOverride.schema, optional: spec?.optional ?? true }
+    : spec;
+  return overridden && fieldOverride.nullable !== undefined
+    ? { ...overridden, nullable: fieldOverride.nullable }
+    : overridden;
+};
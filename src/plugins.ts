@@ -0,0 +1,79 @@
+import { isAbsolute, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { OutputFile } from './output.js';
+import type { AirtypesPlugin, BaseTables, FieldSchemaContext, IdentifierContext, ZodSpec } from './types.js';
+
+export type PluginEntry = string | AirtypesPlugin;
+
+const isPlugin = (value: unknown): value is AirtypesPlugin => typeof value === 'object' && value !== null;
+
+const importPlugins = async (entry: string, configDir: string): Promise<AirtypesPlugin[]> => {
+  const specifier = entry.startsWith('.') || isAbsolute(entry) ? pathToFileURL(resolve(configDir, entry)).href : entry;
+  const module = (await import(specifier)) as { default?: unknown };
+  const exported = module.default ?? module;
+  const plugins = Array.isArray(exported) ? exported : [exported];
+  if (!plugins.every(isPlugin)) {
+    throw new Error(`Plugin module "${entry}" must export a plugin object (or an array of them) as default.`);
+  }
+  return plugins;
+};
+
+// String entries are module paths, resolved against the config file's directory.
+export const loadPlugins = async (entries: PluginEntry[], configDir: string): Promise<AirtypesPlugin[]> => {
+  const plugins: AirtypesPlugin[] = [];
+  for (const entry of entries) {
+    plugins.push(...(typeof entry === 'string' ? await importPlugins(entry, configDir) : [entry]));
+  }
+  return plugins;
+};
+
+// Each plugin sees the result of the ones before it, so later plugins win.
+export const applyFieldSchemaHooks = (
+  plugins: AirtypesPlugin[],
+  context: FieldSchemaContext,
+): { spec: ZodSpec | null; imports: string[] } => {
+  let spec = context.spec;
+  const imports: string[] = [];
+  for (const plugin of plugins) {
+    const override = plugin.fieldSchema?.({ ...context, spec });
+    if (!override) {
+      continue;
+    }
+    spec = {
+      kind: 'custom',
+      expression: override.expression,
+      optional: override.optional ?? spec?.optional ?? true,
+    };
+    imports.push(...(override.imports ?? []));
+  }
+  return { spec, imports };
+};
+
+export const applyIdentifierHooks = (plugins: AirtypesPlugin[], name: string, context: IdentifierContext): string =>
+  plugins.reduce((current, plugin) => plugin.identifier?.(current, context) || current, name);
+
+export const filterTables = (plugins: AirtypesPlugin[], bases: BaseTables[]): BaseTables[] => {
+  if (!plugins.some((plugin) => plugin.filterTable || plugin.filterField)) {
+    return bases;
+  }
+  return bases.map(({ base, tables }) => ({
+    base,
+    tables: tables
+      .filter((table) => plugins.every((plugin) => plugin.filterTable?.(table, base) ?? true))
+      .map((table) => ({
+        ...table,
+        fields: table.fields.filter((field) =>
+          plugins.every((plugin) => plugin.filterField?.(field, table, base) ?? true),
+        ),
+      })),
+  }));
+};
+
+export const transformOutputFiles = (plugins: AirtypesPlugin[], files: OutputFile[]): OutputFile[] =>
+  files.map((file) => ({
+    ...file,
+    contents: plugins.reduce(
+      (contents, plugin) => plugin.transformOutput?.({ path: file.path, contents }) ?? contents,
+      file.contents,
+    ),
+  }));
@@ -0,0 +1,55 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { AirtableTable, GeneratorConfig, SchemaSnapshot } from './types.js';
+
+export const SNAPSHOT_VERSION = 1;
+
+export const getSnapshotPath = (snapshotDir: string, baseId: string): string => resolve(snapshotDir, `${baseId}.json`);
+
+export const writeSnapshot = (snapshotDir: string, base: GeneratorConfig, tables: AirtableTable[]): string => {
+  if (!existsSync(snapshotDir)) {
+    mkdirSync(snapshotDir, { recursive: true });
+  }
+
+  const snapshot: SchemaSnapshot = {
+    version: SNAPSHOT_VERSION,
+    baseId: base.baseId,
+    baseName: base.baseName,
+    tables,
+  };
+
+  const snapshotPath = getSnapshotPath(snapshotDir, base.baseId);
+  writeFileSync(snapshotPath, `${JSON.stringify(snapshot, null, 2)}\n`, 'utf8');
+  return snapshotPath;
+};
+
+export const readSnapshot = (snapshotDir: string, base: GeneratorConfig): AirtableTable[] => {
+  const snapshotPath = getSnapshotPath(snapshotDir, base.baseId);
+  if (!existsSync(snapshotPath)) {
+    throw new Error(
+      `Snapshot for base "${base.baseName}" (${base.baseId}) not found at ${snapshotPath}. Run "airtypes pull" first.`,
+    );
+  }
+
+  let data: Partial<SchemaSnapshot>;
+  try {
+    data = JSON.parse(readFileSync(snapshotPath, 'utf8')) as Partial<SchemaSnapshot>;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read snapshot ${snapshotPath}: ${message}`);
+  }
+
+  if (data.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot version ${String(data.version)} in ${snapshotPath} (expected ${SNAPSHOT_VERSION}). Run "airtypes pull" to refresh it.`,
+    );
+  }
+  if (data.baseId !== base.baseId) {
+    throw new Error(`Snapshot ${snapshotPath} belongs to base ${String(data.baseId)}, expected ${base.baseId}.`);
+  }
+  if (!Array.isArray(data.tables)) {
+    throw new Error(`Unexpected snapshot contents in ${snapshotPath}: missing tables.`);
+  }
+
+  return data.tables;
+};
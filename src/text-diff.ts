@@ -0,0 +1,150 @@
+type DiffOp = {
+  type: ' ' | '-' | '+';
+  line: string;
+};
+
+export type UnifiedDiffOptions = {
+  fromFile: string;
+  toFile: string;
+  context?: number;
+};
+
+const MAX_EDIT_DISTANCE = 4000;
+
+const splitLines = (value: string): string[] => {
+  if (!value) {
+    return [];
+  }
+  const lines = value.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+};
+
+const diffLines = (a: string[], b: string[]): DiffOp[] => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const head = a.slice(0, prefix).map((line): DiffOp => ({ type: ' ', line }));
+  const tail = a.slice(a.length - suffix).map((line): DiffOp => ({ type: ' ', line }));
+  const oldLines = a.slice(prefix, a.length - suffix);
+  const newLines = b.slice(prefix, b.length - suffix);
+  const n = oldLines.length;
+  const m = newLines.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  // Myers' O(ND) algorithm; each trace entry holds the diagonals reachable before step d.
+  let found = n + m === 0;
+  for (let d = 0; d <= max && !found; d += 1) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x += 1;
+        y += 1;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return [
+      ...head,
+      ...oldLines.map((line): DiffOp => ({ type: '-', line })),
+      ...newLines.map((line): DiffOp => ({ type: '+', line })),
+      ...tail,
+    ];
+  }
+
+  const middle: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d -= 1) {
+    const snapshot = trace[d];
+    const at = (k: number): number => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+    while (x > prevX && y > prevY) {
+      middle.push({ type: ' ', line: oldLines[x - 1] });
+      x -= 1;
+      y -= 1;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        middle.push({ type: '+', line: newLines[prevY] });
+      } else {
+        middle.push({ type: '-', line: oldLines[prevX] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return [...head, ...middle.reverse(), ...tail];
+};
+
+const formatRange = (start: number, count: number): string => {
+  const first = count === 0 ? start - 1 : start;
+  return count === 1 ? `${first}` : `${first},${count}`;
+};
+
+export const createUnifiedDiff = (before: string, after: string, options: UnifiedDiffOptions): string => {
+  const context = options.context ?? 3;
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const changeIndexes = ops.flatMap((op, index) => (op.type === ' ' ? [] : [index]));
+  if (changeIndexes.length === 0) {
+    return '';
+  }
+
+  const lines = [`--- ${options.fromFile}`, `+++ ${options.toFile}`];
+  let cursor = 0;
+  while (cursor < changeIndexes.length) {
+    let last = cursor;
+    while (last + 1 < changeIndexes.length && changeIndexes[last + 1] - changeIndexes[last] <= context * 2 + 1) {
+      last += 1;
+    }
+
+    const start = Math.max(0, changeIndexes[cursor] - context);
+    const end = Math.min(ops.length, changeIndexes[last] + context + 1);
+    let oldStart = 1;
+    let newStart = 1;
+    for (const op of ops.slice(0, start)) {
+      if (op.type !== '+') oldStart += 1;
+      if (op.type !== '-') newStart += 1;
+    }
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+    lines.push(`@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`);
+    for (const op of hunk) {
+      lines.push(`${op.type}${op.line}`);
+    }
+
+    cursor = last + 1;
+  }
+
+  return `${lines.join('\n')}\n`;
+};
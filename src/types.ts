@@ -2,11 +2,24 @@ export type AirtableField = {
   id: string;
   name: string;
   type: string;
+  description?: string;
   options?: Record<string, unknown> | null;
 };
 
+export type AirtableSelectChoice = {
+  id: string;
+  name: string;
+  color?: string;
+};
+
 export type AirtableFieldOptions = {
   linkedTableId?: string;
+  choices?: AirtableSelectChoice[];
+  // Formula, rollup and lookup fields.
+  result?: AirtableField | null;
+  isValid?: boolean;
+  recordLinkFieldId?: string;
+  fieldIdInLinkedTable?: string;
 };
 
 export type AirtableView = {
@@ -19,12 +32,32 @@ export type AirtableView = {
 export type AirtableTable = {
   id: string;
   name: string;
+  description?: string;
   fields: AirtableField[];
   views: AirtableView[];
 };
 
 export type BaseSchema = { tables: AirtableTable[] };
 
+export type AirtableBase = {
+  id: string;
+  name: string;
+  permissionLevel?: string;
+};
+
+export type BaseList = { bases: AirtableBase[]; offset?: string };
+
+export type SchemaSnapshot = {
+  version: number;
+  baseId: string;
+  baseName: string;
+  tables: AirtableTable[];
+};
+
+export type SelectMode = 'string' | 'strict' | 'open';
+
+export type DateMode = 'string' | 'iso' | 'date';
+
 export type GeneratorConfig = {
   baseName: string;
   baseId: string;
@@ -32,11 +65,225 @@ export type GeneratorConfig = {
   viewIds?: string[];
   requiredFields?: Record<string, string[]>;
   namedViews?: Record<string, Record<string, string>>;
+  selectMode?: SelectMode;
+  selectModes?: Record<string, SelectMode>;
+  overrides?: Record<string, TableOverride>;
+};
+
+export type FieldOverride = {
+  name?: string;
+  schema?: string;
+  imports?: string[];
+  nullable?: boolean;
+  exclude?: boolean;
+};
+
+export type TableOverride = {
+  typeName?: string;
+  constName?: string;
+  includeFields?: string[];
+  excludeFields?: string[];
+  fields?: Record<string, FieldOverride>;
+};
+
+export type OutputMode = 'single' | 'split';
+
+export type OutputFormat = 'zod' | 'jsonschema';
+
+export type ZodSpec = {
+  kind:
+    | 'string'
+    | 'number'
+    | 'boolean'
+    | 'record'
+    | 'array'
+    | 'object'
+    | 'enum'
+    | 'attachment'
+    | 'attachmentWrite'
+    | 'collaborator'
+    | 'collaboratorWrite'
+    | 'barcode'
+    | 'button'
+    | 'aiText'
+    | 'date'
+    | 'dateTime'
+    | 'dateWrite'
+    | 'dateTimeWrite'
+    | 'custom';
+  optional: boolean;
+  inner?: ZodSpec;
+  values?: string[];
+  open?: boolean;
+  coerce?: boolean;
+  nullable?: boolean;
+  // Formula and rollup cells hold `{ error: '#ERROR!' }` instead of a value when their expression fails.
+  errorable?: boolean;
+  // Verbatim schema (or type) expression from a plugin, used by `custom` specs.
+  expression?: string;
+};
+
+export type GeneratedField = AirtableField & {
+  jsName: string;
+  zodSpec: ZodSpec | null;
+  writeSpec: ZodSpec | null;
+  originalName: string;
+};
+
+export type LinkedFieldMeta = {
+  jsName: string;
+  linkedTableId: string;
+};
+
+export type NamedViewsMeta = {
+  constName: string;
+  views: Array<{ key: string; id: string }>;
+};
+
+export type ViewMeta = {
+  name: string;
+  id: string;
+  type: string;
+  // jsNames of the view's visible fields; null when the schema did not report them (non-grid views).
+  fields: string[] | null;
+};
+
+export type ViewsMeta = {
+  constName: string;
+  views: ViewMeta[];
+};
+
+export type ChoiceSetMeta = {
+  fieldId: string;
+  constName: string;
+  choices: AirtableSelectChoice[];
+};
+
+export type TableModel = {
+  base: GeneratorConfig;
+  table: AirtableTable;
+  selectMode: SelectMode;
+  basePrefixCamel: string;
+  itemName: string;
+  typeName: string;
+  tableConstName: string;
+  fields: GeneratedField[];
+  requiredFields: string[];
+  links: LinkedFieldMeta[];
+  namedViews: NamedViewsMeta | null;
+  views: ViewsMeta | null;
+  choiceSets: ChoiceSetMeta[];
+  imports: string[];
+  aliases: IdentifierAliases;
+};
+
+// Previous names kept as `@deprecated` aliases by the run that accepts a rename; the next run drops them.
+export type IdentifierAliases = {
+  typeName?: string;
+  constName?: string;
+  // Previous property names of renamed fields, keyed by field ID.
+  fields?: Record<string, string>;
+};
+
+export type TableLock = {
+  typeName: string;
+  constName: string;
+  fields: Record<string, string>;
+};
+
+export type IdentifierLock = {
+  version: number;
+  bases: Record<string, { tables: Record<string, TableLock> }>;
+};
+
+export type BaseTables = {
+  base: GeneratorConfig;
+  tables: AirtableTable[];
+};
+
+export type Diagnostic = {
+  level: 'warn';
+  message: string;
+  baseId: string;
+  tableId: string;
+};
+
+export type EmitterTarget = 'zod' | 'valibot' | 'arktype' | 'typescript';
+
+export type RenderOptions = {
+  includeLinks: boolean;
+  includeRecordSchema: boolean;
+  includeWriteSchema: boolean;
+  // Field-ID keyed `*ById` schemas plus `fieldNames` and the `fromAirtableFields`/`toAirtableFields` helpers.
+  includeByIdSchema: boolean;
+  // A fetch-based `create*Client` per table plus the shared `createAirtableTableClient` runtime.
+  includeClient: boolean;
+  // `where(table)` formula builders and `sortBy(table, ...)`; adds `fieldNames` to each table definition.
+  includeFormulaBuilder: boolean;
+  // Every view per table as an `*AllViews` const with `*ViewName` and `*ViewFields<V>` types.
+  includeViews: boolean;
+  dates: DateMode;
+};
+
+export type Emitter = {
+  target: EmitterTarget;
+  imports: string[];
+  renderRuntime: (options: RenderOptions) => string[];
+  renderTable: (model: TableModel, options: RenderOptions) => string;
+};
+
+export type FieldSchemaContext = {
+  field: AirtableField;
+  table: AirtableTable;
+  base: GeneratorConfig;
+  target: EmitterTarget;
+  // The spec generated so far, including overrides from earlier plugins.
+  spec: ZodSpec | null;
+};
+
+export type FieldSchemaOverride = {
+  expression: string;
+  imports?: string[];
+  optional?: boolean;
+};
+
+export type IdentifierContext = {
+  kind: 'field' | 'type' | 'table';
+  table: AirtableTable;
+  base: GeneratorConfig;
+  field?: AirtableField;
+};
+
+export type AirtypesPlugin = {
+  name?: string;
+  fieldSchema?: (context: FieldSchemaContext) => FieldSchemaOverride | null | undefined;
+  identifier?: (name: string, context: IdentifierContext) => string | null | undefined;
+  filterTable?: (table: AirtableTable, base: GeneratorConfig) => boolean;
+  filterField?: (field: AirtableField, table: AirtableTable, base: GeneratorConfig) => boolean;
+  transformOutput?: (file: { path: string; contents: string }) => string | null | undefined;
 };
 
 export type ParsedConfig = {
-  apiKey: string;
+  apiKey?: string;
+  apiUrl: string;
+  requestTimeout?: number;
+  maxRetries?: number;
   output: string;
+  outputMode: OutputMode;
+  outDir: string;
+  target: EmitterTarget;
+  formats: OutputFormat[];
+  jsonSchemaDir: string;
+  dates: DateMode;
+  snapshotDir?: string;
+  pollInterval?: number;
+  client: boolean;
+  formulaBuilder: boolean;
+  byIdSchema: boolean;
+  emitViews: boolean;
+  configPath?: string;
+  lockfile?: string;
+  plugins: AirtypesPlugin[];
   bases: GeneratorConfig[];
 };
 
@@ -44,12 +291,22 @@ export type CliOptions = {
   config?: string;
   configFile?: string;
   out?: string;
+  outDir?: string;
+  fromSnapshot?: string;
+  format?: string[];
+  target?: string;
   color?: boolean;
   json: boolean;
   plain: boolean;
   quiet: boolean;
   verbose: boolean;
-  noLinks: boolean;
-  noRecordSchema: boolean;
+  links: boolean;
+  recordSchema: boolean;
+  writeSchema: boolean;
+  // Unset unless the flag is passed, so `by_id_schema` in the config applies.
+  byIdSchema?: boolean;
   dryRun: boolean;
+  check: boolean;
+  rename: boolean;
+  deprecatedAliases: boolean;
 };
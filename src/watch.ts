@@ -0,0 +1,128 @@
+import { type FSWatcher, watch } from 'node:fs';
+import { basename, dirname } from 'node:path';
+
+export type WatchReason = 'initial' | 'poll' | 'config';
+
+export type WatchLoopOptions = {
+  intervalMs: number;
+  maxBackoffMs: number;
+  configPath?: string;
+  run: (reason: WatchReason) => Promise<void>;
+  onError: (error: unknown, retryInMs: number) => void;
+  // The config watcher is closed after an error; polling carries on without it.
+  onConfigWatchError: (error: unknown) => void;
+};
+
+export type WatchRunOptions<T> = {
+  load: (reason: WatchReason) => Promise<{ state: T; hash: string }>;
+  // `previous` is the last successfully applied state, or undefined when there is none or nothing changed.
+  apply: (state: T, previous: T | undefined) => Promise<void>;
+  onUnchanged: () => void;
+};
+
+const CONFIG_DEBOUNCE_MS = 200;
+
+// Polls skip only when the hash matches the last run that applied successfully, so a failed run is retried.
+export const createWatchRun = <T>(options: WatchRunOptions<T>): ((reason: WatchReason) => Promise<void>) => {
+  let applied: { state: T; hash: string } | undefined;
+  return async (reason) => {
+    const next = await options.load(reason);
+    if (reason === 'poll' && next.hash === applied?.hash) {
+      options.onUnchanged();
+      return;
+    }
+    await options.apply(next.state, next.hash === applied?.hash ? undefined : applied?.state);
+    applied = next;
+  };
+};
+
+export const runWatchLoop = (options: WatchLoopOptions): Promise<void> =>
+  new Promise((resolveLoop) => {
+    let timer: NodeJS.Timeout | undefined;
+    let debounceTimer: NodeJS.Timeout | undefined;
+    let configWatcher: FSWatcher | undefined;
+    let running = false;
+    let pendingReason: WatchReason | undefined;
+    let stopped = false;
+    let failures = 0;
+
+    const schedule = (delayMs: number, reason: WatchReason): void => {
+      clearTimeout(timer);
+      if (stopped) {
+        return;
+      }
+      timer = setTimeout(() => {
+        void tick(reason);
+      }, delayMs);
+    };
+
+    const tick = async (reason: WatchReason): Promise<void> => {
+      if (stopped) {
+        return;
+      }
+      if (running) {
+        pendingReason = reason === 'config' ? reason : (pendingReason ?? reason);
+        return;
+      }
+
+      running = true;
+      clearTimeout(timer);
+      try {
+        await options.run(reason);
+        failures = 0;
+        schedule(options.intervalMs, 'poll');
+      } catch (error) {
+        failures += 1;
+        const retryInMs = Math.min(
+          options.intervalMs * 2 ** failures,
+          Math.max(options.maxBackoffMs, options.intervalMs),
+        );
+        options.onError(error, retryInMs);
+        schedule(retryInMs, 'poll');
+      } finally {
+        running = false;
+      }
+
+      if (pendingReason && !stopped) {
+        const next = pendingReason;
+        pendingReason = undefined;
+        await tick(next);
+      }
+    };
+
+    const stop = (): void => {
+      if (stopped) {
+        return;
+      }
+      stopped = true;
+      clearTimeout(timer);
+      clearTimeout(debounceTimer);
+      configWatcher?.close();
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      resolveLoop();
+    };
+
+    if (options.configPath) {
+      // Watch the directory: editors often replace the file, which would orphan a file watcher.
+      const configName = basename(options.configPath);
+      configWatcher = watch(dirname(options.configPath), (_event, filename) => {
+        if (filename !== configName) {
+          return;
+        }
+        clearTimeout(debounceTimer);
+        debounceTimer = setTimeout(() => {
+          void tick('config');
+        }, CONFIG_DEBOUNCE_MS);
+      });
+      configWatcher.on('error', (error) => {
+        configWatcher?.close();
+        configWatcher = undefined;
+        options.onConfigWatchError(error);
+      });
+    }
+
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+    void tick('initial');
+  });
@@ -0,0 +1,194 @@
+import assert from 'node:assert/strict';
+import { execFile, spawn } from 'node:child_process';
+import { copyFileSync, cpSync, existsSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { test } from 'node:test';
+import { promisify } from 'node:util';
+
+const fixtureDir = resolve(import.meta.dirname, 'fixtures');
+const cliPath = resolve(import.meta.dirname, '..', 'src', 'cli.ts');
+
+// The fixture config sets snapshot_dir; this server stands in for the live schema.
+const liveTables = [
+  {
+    id: 'tblLive000000001',
+    name: 'Live only',
+    primaryFieldId: 'fldTitle00000001',
+    fields: [{ id: 'fldTitle00000001', name: 'Title', type: 'singleLineText' }],
+    views: [],
+  },
+];
+
+const inspect = async (...args: string[]): Promise<string> => {
+  const server = createServer((_request, response) => {
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ tables: liveTables }));
+  });
+  await new Promise<void>((resolveListen) => server.listen(0, '127.0.0.1', resolveListen));
+  try {
+    const { stdout } = await promisify(execFile)(
+      process.execPath,
+      ['--import', 'tsx', cliPath, 'inspect', 'crm', ...args],
+      {
+        cwd: fixtureDir,
+        env: {
+          ...process.env,
+          AIRTABLE_API_KEY: 'key',
+          AIRTABLE_API_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        },
+        timeout: 60_000,
+      },
+    );
+    return stdout;
+  } finally {
+    server.closeAllConnections();
+    await new Promise((resolveClose) => server.close(resolveClose));
+  }
+};
+
+void test('inspect reads the live schema even with snapshot_dir set', async () => {
+  const output = await inspect();
+  assert.match(output, /Live only/);
+  assert.doesNotMatch(output, /Clients/);
+});
+
+void test('inspect reads snapshots with --from-snapshot', async () => {
+  const output = await inspect('--from-snapshot', 'snapshots');
+  assert.match(output, /Clients/);
+  assert.doesNotMatch(output, /Live only/);
+});
+
+const waitFor = async (check: () => boolean, what: string, timeoutMs = 30_000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${what}`);
+    }
+    await new Promise((resolveDelay) => setTimeout(resolveDelay, 100));
+  }
+};
+
+void test('watch polls the live schema even with snapshot_dir set', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'airtypes-watch-'));
+  copyFileSync(join(fixtureDir, 'airtypes.config.toml'), join(dir, 'airtypes.config.toml'));
+  cpSync(join(fixtureDir, 'snapshots'), join(dir, 'snapshots'), { recursive: true });
+  const outputPath = join(dir, 'out', 'airtable-types.ts');
+  const readOutput = () => (existsSync(outputPath) ? readFileSync(outputPath, 'utf8') : '');
+
+  let tables = liveTables;
+  const server = createServer((_request, response) => {
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ tables }));
+  });
+  await new Promise<void>((resolveListen) => server.listen(0, '127.0.0.1', resolveListen));
+  // The temp dir has no node_modules, so tsx is resolved from this repo.
+  const child = spawn(process.execPath, ['--import', import.meta.resolve('tsx'), cliPath, 'watch', '--interval', '1'], {
+    cwd: dir,
+    env: {
+      ...process.env,
+      AIRTABLE_API_KEY: 'key',
+      AIRTABLE_API_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    },
+    stdio: 'ignore',
+  });
+  const exited = new Promise((resolveExit) => child.once('exit', resolveExit));
+  try {
+    await waitFor(() => readOutput().includes('CrmLiveOnly'), 'the live table');
+    assert.doesNotMatch(readOutput(), /CrmClients/);
+
+    tables = [
+      {
+        ...liveTables[0],
+        fields: [...liveTables[0].fields, { id: 'fldNotes00000001', name: 'Notes', type: 'multilineText' }],
+      },
+    ];
+    await waitFor(() => readOutput().includes('fldNotes00000001'), 'the field added in Airtable');
+  } finally {
+    child.kill();
+    await exited;
+    server.closeAllConnections();
+    await new Promise((resolveClose) => server.close(resolveClose));
+  }
+});
+
+// A config without snapshot_dir or retries, so every failure reaches the CLI straight away.
+const writeLiveConfig = (): string => {
+  const path = join(mkdtempSync(join(tmpdir(), 'airtypes-exit-')), 'airtypes.config.toml');
+  writeFileSync(path, 'max_retries = 0\n\n[[bases]]\nname = "crm"\nbase_id = "appCRM000000001"\n');
+  return path;
+};
+
+const runCli = async (args: string[], env: NodeJS.ProcessEnv = {}): Promise<{ code: number; stdout: string }> => {
+  try {
+    const { stdout } = await promisify(execFile)(process.execPath, ['--import', 'tsx', cliPath, ...args], {
+      cwd: fixtureDir,
+      env: { ...process.env, ...env },
+      timeout: 60_000,
+    });
+    return { code: 0, stdout };
+  } catch (error) {
+    const { code, stdout } = error as { code: number; stdout: string };
+    return { code, stdout };
+  }
+};
+
+const runGenerate = async (apiUrl: string): Promise<number> =>
+  (await runCli(['--config', writeLiveConfig()], { AIRTABLE_API_KEY: 'key', AIRTABLE_API_URL: apiUrl })).code;
+
+const exitCodes = [
+  [401, 5],
+  [403, 6],
+  [404, 7],
+  [429, 8],
+  [500, 10],
+] as const;
+
+for (const [status, exitCode] of exitCodes) {
+  void test(`exits with ${exitCode} when Airtable answers ${status}`, async () => {
+    const server = createServer((_request, response) => {
+      response.writeHead(status).end('{}');
+    });
+    await new Promise<void>((resolveListen) => server.listen(0, '127.0.0.1', resolveListen));
+    try {
+      assert.equal(await runGenerate(`http://127.0.0.1:${(server.address() as AddressInfo).port}`), exitCode);
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolveClose) => server.close(resolveClose));
+    }
+  });
+}
+
+void test('exits with 9 when Airtable cannot be reached', async () => {
+  // Take a free port and close it again, so connecting to it is refused.
+  const server = createServer();
+  await new Promise<void>((resolveListen) => server.listen(0, '127.0.0.1', resolveListen));
+  const { port } = server.address() as AddressInfo;
+  await new Promise((resolveClose) => server.close(resolveClose));
+
+  assert.equal(await runGenerate(`http://127.0.0.1:${port}`), 9);
+});
+
+void test('--check prints a diff and exits with 4 when the output was edited', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'airtypes-check-'));
+  const configPath = join(dir, 'airtypes.config.toml');
+  const outputPath = join(dir, 'airtable-types.ts');
+  writeFileSync(
+    configPath,
+    `output = "airtable-types.ts"\nsnapshot_dir = ${JSON.stringify(join(fixtureDir, 'snapshots'))}\n\n[[bases]]\nname = "crm"\nbase_id = "appCRM000000001"\n`,
+  );
+  assert.equal((await runCli(['--config', configPath])).code, 0);
+  assert.deepEqual(await runCli(['--config', configPath, '--check']), { code: 0, stdout: '' });
+
+  writeFileSync(
+    outputPath,
+    readFileSync(outputPath, 'utf8').replace('export const crmClientsTable', 'export const editedTable'),
+  );
+  const { code, stdout } = await runCli(['--config', configPath, '--check']);
+
+  assert.equal(code, 4);
+  assert.match(stdout, /^-export const editedTable = \{$/m);
+  assert.match(stdout, /^\+export const crmClientsTable = \{$/m);
+});
@@ -0,0 +1,185 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { test } from 'node:test';
+import { pathToFileURL } from 'node:url';
+import { generate } from '../src/generate.js';
+import { loadConfig } from '../src/index.js';
+
+type Call = { method: string; url: URL; body?: { records: Array<{ id?: string; fields: Record<string, unknown> }> } };
+type ClientRecord = { id: string; fields: Record<string, unknown> };
+type Client = {
+  list: (options?: Record<string, unknown>) => Promise<ClientRecord[]>;
+  create: (records: Array<Record<string, unknown>>) => Promise<ClientRecord[]>;
+  update: (records: Array<{ id: string; fields: Record<string, unknown> }>) => Promise<ClientRecord[]>;
+  delete: (recordIds: string[]) => Promise<string[]>;
+};
+type ClientModule = {
+  createCrmClientsClient: (options: { apiKey: string; baseUrl?: string; fetch?: typeof fetch }) => Client;
+  AirtableRequestError: new (...args: never[]) => Error & { status: number; body: string };
+};
+
+const fixtureDir = resolve(import.meta.dirname, 'fixtures');
+
+// Generates a client from the fixture snapshot and imports it; the default `typescript` target needs no validator.
+// Written under node_modules so validator targets resolve `zod` from this repo.
+const loadClientModule = async (overrides: { target?: 'zod'; dates?: 'date' } = {}): Promise<ClientModule> => {
+  const config = await loadConfig({ config: resolve(fixtureDir, 'airtypes.config.toml'), cwd: fixtureDir });
+  const [file] = (await generate({ ...config, target: 'typescript', client: true, ...overrides })).files;
+  const path = join(
+    mkdtempSync(resolve(import.meta.dirname, '../node_modules/.airtypes-client-')),
+    'airtable-types.ts',
+  );
+  writeFileSync(path, file.contents, 'utf8');
+  return (await import(pathToFileURL(path).href)) as ClientModule;
+};
+const clientModule = loadClientModule();
+
+// Records every request and answers with `respond`.
+const createClient = async (respond: (call: Call, index: number) => Response, module = clientModule) => {
+  const calls: Call[] = [];
+  const fakeFetch = async (input: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+    const call: Call = {
+      method: init.method ?? 'GET',
+      url: new URL(String(input)),
+      body: init.body ? JSON.parse(String(init.body)) : undefined,
+    };
+    calls.push(call);
+    return respond(call, calls.length - 1);
+  };
+  const client = (await module).createCrmClientsClient({
+    apiKey: 'key',
+    baseUrl: 'https://airtable.test/v0/',
+    fetch: fakeFetch as typeof fetch,
+  });
+  return { client, calls };
+};
+
+const json = (value: unknown, status = 200): Response =>
+  new Response(JSON.stringify(value), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Echoes written records back with IDs, as Airtable does.
+const echoRecords = (call: Call): Response =>
+  json({
+    records: (call.body?.records ?? []).map((record, index) => ({
+      id: record.id ?? `rec${index}`,
+      fields: record.fields,
+    })),
+  });
+
+void test('list follows offset through every page and re-keys fields', async () => {
+  const { client, calls } = await createClient((_call, index) =>
+    json(
+      index === 0
+        ? { records: [{ id: 'rec1', fields: { fldName000000001: 'Acme' } }], offset: 'page2' }
+        : { records: [{ id: 'rec2', fields: { fldName000000001: 'Globex', fldUnknown000001: true } }] },
+    ),
+  );
+
+  const records = await client.list();
+
+  assert.deepEqual(records, [
+    { id: 'rec1', fields: { name: 'Acme' } },
+    { id: 'rec2', fields: { name: 'Globex' } },
+  ]);
+  assert.equal(calls.length, 2);
+  assert.equal(calls[0].url.searchParams.get('offset'), null);
+  assert.equal(calls[1].url.searchParams.get('offset'), 'page2');
+  assert.equal(calls[0].url.pathname, '/v0/appCRM000000001/tblClients000001');
+});
+
+void test('list requests the mapped fields, maps named views and sorts by field ID', async () => {
+  const { client, calls } = await createClient(() => json({ records: [] }));
+
+  await client.list({ view: 'Active', sort: [{ field: 'revenue', direction: 'desc' }], pageSize: 50 });
+
+  const params = calls[0].url.searchParams;
+  assert.equal(params.get('returnFieldsByFieldId'), 'true');
+  assert.ok(params.getAll('fields[]').includes('fldName000000001'));
+  assert.ok(params.getAll('fields[]').includes('fldAutoNum000001'));
+  assert.equal(params.get('view'), 'viwActive0000001');
+  assert.equal(params.get('sort[0][field]'), 'fldRevenue000001');
+  assert.equal(params.get('sort[0][direction]'), 'desc');
+  assert.equal(params.get('pageSize'), '50');
+});
+
+void test('create and update send batches of at most 10 records keyed by field ID', async () => {
+  const { client, calls } = await createClient(echoRecords);
+  const names = Array.from({ length: 23 }, (_, index) => `Client ${index}`);
+
+  const created = await client.create(names.map((name) => ({ name })));
+  const updated = await client.update(created.slice(0, 11).map(({ id }) => ({ id, fields: { revenue: 1 } })));
+
+  assert.deepEqual(
+    calls.map((call) => [call.method, call.body?.records.length]),
+    [
+      ['POST', 10],
+      ['POST', 10],
+      ['POST', 3],
+      ['PATCH', 10],
+      ['PATCH', 1],
+    ],
+  );
+  assert.deepEqual(calls[0].body?.records[0], { fields: { fldName000000001: 'Client 0' } });
+  assert.deepEqual(calls[3].body?.records[0], { id: 'rec0', fields: { fldRevenue000001: 1 } });
+  assert.equal(created.length, 23);
+  assert.deepEqual(created[22].fields, { name: 'Client 22' });
+  assert.equal(updated.length, 11);
+});
+
+void test('delete batches record IDs and returns the deleted ones', async () => {
+  const { client, calls } = await createClient((call) =>
+    json({ records: call.url.searchParams.getAll('records[]').map((id) => ({ id, deleted: id !== 'rec3' })) }),
+  );
+  const ids = Array.from({ length: 12 }, (_, index) => `rec${index}`);
+
+  const deleted = await client.delete(ids);
+
+  assert.deepEqual(
+    calls.map((call) => [call.method, call.url.searchParams.getAll('records[]').length]),
+    [
+      ['DELETE', 10],
+      ['DELETE', 2],
+    ],
+  );
+  assert.deepEqual(
+    deleted,
+    ids.filter((id) => id !== 'rec3'),
+  );
+});
+
+void test('failed requests throw AirtableRequestError with status and body', async () => {
+  const { AirtableRequestError } = await clientModule;
+  const { client, calls } = await createClient(() => json({ error: { type: 'INVALID_REQUEST_UNKNOWN' } }, 422));
+
+  await assert.rejects(client.create([{ name: 'Acme' }]), (error) => {
+    assert.ok(error instanceof AirtableRequestError);
+    assert.equal(error.status, 422);
+    assert.match(error.body, /INVALID_REQUEST_UNKNOWN/);
+    return true;
+  });
+  assert.equal(calls.length, 1);
+});
+
+void test('dates = "date" clients encode Dates through the write schemas and decode them on read', async () => {
+  const { client, calls } = await createClient(echoRecords, loadClientModule({ target: 'zod', dates: 'date' }));
+  const since = new Date('2024-03-01T00:00:00.000Z');
+  const meeting = new Date('2024-03-04T09:30:00.000Z');
+
+  const [created] = await client.create([{ name: 'Acme', clientSince: since, nextMeeting: meeting }]);
+  await client.update([{ id: created.id, fields: { name: 'Acme', clientSince: since } }]);
+
+  assert.deepEqual(calls[0].body?.records[0].fields, {
+    fldName000000001: 'Acme',
+    fldSince00000001: '2024-03-01',
+    fldMeeting000001: '2024-03-04T09:30:00.000Z',
+  });
+  assert.deepEqual(calls[1].body?.records[0], {
+    id: 'rec0',
+    fields: { fldName000000001: 'Acme', fldSince00000001: '2024-03-01' },
+  });
+  assert.deepEqual(created.fields.clientSince, since);
+  assert.deepEqual(created.fields.nextMeeting, meeting);
+  await assert.rejects(client.create([{ name: 'Acme', clientSince: '2024-03-01' }]));
+  assert.equal(calls.length, 2);
+});
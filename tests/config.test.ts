@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { test } from 'node:test';
+import { loadConfig } from '../src/index.js';
+
+const testsDir = import.meta.dirname;
+const fixtureDir = resolve(testsDir, 'fixtures');
+
+void test('loadConfig resolves a relative config path against cwd', async () => {
+  assert.notEqual(process.cwd(), testsDir);
+
+  const config = await loadConfig({ config: 'fixtures/airtypes.config.toml', cwd: testsDir });
+
+  assert.equal(config.configPath, resolve(fixtureDir, 'airtypes.config.toml'));
+  assert.equal(config.snapshotDir, resolve(fixtureDir, 'snapshots'));
+});
+
+void test('loadConfig searches for a config from cwd', async () => {
+  const config = await loadConfig({ cwd: fixtureDir });
+
+  assert.equal(config.configPath, resolve(fixtureDir, 'airtypes.config.toml'));
+});
+
+void test('by_id_schema defaults to off and is read from the config', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'airtypes-config-'));
+  writeFileSync(
+    join(dir, 'airtypes.config.toml'),
+    'by_id_schema = true\nsnapshot_dir = "snapshots"\n\n[[bases]]\nname = "crm"\nbase_id = "appCRM000000001"\n',
+  );
+
+  assert.equal((await loadConfig({ cwd: fixtureDir })).byIdSchema, false);
+  assert.equal((await loadConfig({ cwd: dir })).byIdSchema, true);
+});
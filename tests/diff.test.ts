@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { resolve } from 'node:path';
+import { test } from 'node:test';
+import { collectIdentifiers, diffTables } from '../src/diff.js';
+import { buildTableModels } from '../src/generate.js';
+import { loadConfig } from '../src/index.js';
+import { scopeOverrides } from '../src/overrides.js';
+import type { AirtableTable, GeneratorConfig, ParsedConfig } from '../src/types.js';
+
+const fixtureDir = resolve(import.meta.dirname, 'fixtures');
+
+const table = (fields: Array<[id: string, name: string]>): AirtableTable => ({
+  id: 'tblTasks00000001',
+  name: 'Tasks',
+  fields: fields.map(([id, name]) => ({ id, name, type: 'singleLineText' })),
+  views: [],
+});
+
+const diff = async (before: AirtableTable, after: AirtableTable, overrides: GeneratorConfig['overrides'] = {}) => {
+  const config: ParsedConfig = await loadConfig({
+    config: resolve(fixtureDir, 'airtypes.config.toml'),
+    cwd: fixtureDir,
+  });
+  const base = { ...config.bases[0], overrides };
+  const identifiers = (tables: AirtableTable[]) =>
+    collectIdentifiers(buildTableModels(config, [{ base: scopeOverrides(base, tables), tables }]).models);
+  const [tableDiff] = diffTables([before], [after], {
+    renderFieldType: () => 'string',
+    before: identifiers([before]),
+    after: identifiers([after]),
+  });
+  return tableDiff?.changes ?? [];
+};
+
+void test('a rename is not breaking when an override keeps the generated name', async () => {
+  const changes = await diff(table([['fldTitle00000001', 'Title']]), table([['fldTitle00000001', 'Task title']]), {
+    Tasks: { fields: { fldTitle00000001: { name: 'title' } } },
+  });
+  assert.deepEqual(
+    changes.map((change) => [change.kind, change.breaking]),
+    [['field-renamed', false]],
+  );
+});
+
+void test('a rename is breaking when the generated name changes', async () => {
+  const changes = await diff(table([['fldTitle00000001', 'Title']]), table([['fldTitle00000001', 'Task title']]));
+  assert.deepEqual(
+    changes.map((change) => [change.kind, change.breaking]),
+    [['field-renamed', true]],
+  );
+});
+
+void test('reports fields whose default identifier moves without a rename', async () => {
+  // "#" and "%" fall back to invalidIdentifier1/2; renaming the first shifts the second's number.
+  const changes = await diff(
+    table([
+      ['fldFirst00000001', '#'],
+      ['fldSecond0000001', '%'],
+    ]),
+    table([
+      ['fldFirst00000001', 'Number'],
+      ['fldSecond0000001', '%'],
+    ]),
+  );
+  const moved = changes.find((change) => change.kind === 'identifier-changed');
+  assert.ok(moved, 'expected an identifier-changed entry');
+  assert.equal(moved.breaking, true);
+  assert.equal(moved.fieldId, 'fldSecond0000001');
+});
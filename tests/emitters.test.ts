@@ -0,0 +1,209 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { test } from 'node:test';
+import { pathToFileURL } from 'node:url';
+import ts from 'typescript';
+import { escapeString } from '../src/emitters/shared.js';
+import { generate, renderTable } from '../src/generate.js';
+import { loadConfig } from '../src/index.js';
+import type { AirtableTable, EmitterTarget, GeneratorConfig } from '../src/types.js';
+
+const fixtureDir = resolve(import.meta.dirname, 'fixtures');
+const awkwardNames = ["Don't \\ Done", 'Line\nbreak', '\\u00 and \\x', 'Carriage\rreturn'];
+const targets: EmitterTarget[] = ['zod', 'valibot', 'arktype', 'typescript'];
+
+const loadBase = async (): Promise<GeneratorConfig> =>
+  (await loadConfig({ config: resolve(fixtureDir, 'airtypes.config.toml'), cwd: fixtureDir })).bases[0];
+
+// Fails on syntax errors and returns the value of every string literal in the generated module.
+const stringLiterals = (code: string): string[] => {
+  const { diagnostics } = ts.transpileModule(code, { reportDiagnostics: true, fileName: 'generated.ts' });
+  assert.deepEqual(
+    diagnostics?.map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')),
+    [],
+  );
+  const literals: string[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isStringLiteral(node)) {
+      literals.push(node.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(ts.createSourceFile('generated.ts', code, ts.ScriptTarget.Latest, true));
+  return literals;
+};
+
+const statusTable: AirtableTable = {
+  id: 'tblStatus0000001',
+  name: 'Tasks',
+  fields: [
+    {
+      id: 'fldStatus0000001',
+      name: 'Status',
+      type: 'singleSelect',
+      options: { choices: awkwardNames.map((name, index) => ({ id: `sel${index}`, name })) },
+    },
+  ],
+  views: [],
+};
+
+void test('escapeString round-trips through a single-quoted literal', () => {
+  for (const value of [...awkwardNames, 'a b c']) {
+    assert.equal(new Function(`return '${escapeString(value)}';`)(), value);
+  }
+});
+
+for (const target of targets) {
+  void test(`${target} keeps backslashes, quotes and newlines in choice names`, async () => {
+    const { code } = renderTable(statusTable, { base: await loadBase(), target });
+    const literals = stringLiterals(code);
+    for (const name of awkwardNames) {
+      assert.ok(literals.includes(name), `missing choice ${JSON.stringify(name)}`);
+    }
+  });
+}
+
+for (const target of targets) {
+  void test(`${target} keeps backslashes, quotes and newlines in view names`, async () => {
+    const table: AirtableTable = {
+      ...statusTable,
+      views: awkwardNames.map((name, index) => ({ id: `viw${index}`, name, type: 'grid' })),
+    };
+    const { code } = renderTable(table, { base: await loadBase(), target, includeViews: true });
+    const literals = stringLiterals(code);
+    for (const name of awkwardNames) {
+      assert.ok(literals.includes(name), `missing view ${JSON.stringify(name)}`);
+    }
+  });
+}
+
+for (const target of ['zod', 'valibot', 'arktype'] as const) {
+  void test(`${target} write schemas encode Dates when dates = "date"`, async () => {
+    const table: AirtableTable = {
+      id: 'tblEvents0000001',
+      name: 'Events',
+      fields: [
+        { id: 'fldDay0000000001', name: 'Day', type: 'date' },
+        { id: 'fldStart00000001', name: 'Start', type: 'dateTime' },
+      ],
+      views: [],
+    };
+    const { code } = renderTable(table, { base: await loadBase(), target, dates: 'date', includeWriteSchema: true });
+    const createSchema = code.slice(code.indexOf('CreateSchema ='));
+    assert.match(createSchema, /day\??'?: .*AirtableDateWriteSchema/);
+    assert.match(createSchema, /start\??'?: .*AirtableDateTimeWriteSchema/);
+  });
+}
+
+// Written under node_modules so the generated module resolves `zod` from this repo.
+const writeGenerated = (contents: string): string => {
+  const path = join(mkdtempSync(resolve(import.meta.dirname, '../node_modules/.airtypes-')), 'airtable-types.ts');
+  writeFileSync(path, contents, 'utf8');
+  return path;
+};
+
+const typeErrors = (path: string): string[] =>
+  ts
+    .getPreEmitDiagnostics(
+      ts.createProgram([path], {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+      }),
+    )
+    .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+
+for (const dates of ['string', 'date'] as const) {
+  void test(`zod Create values round-trip through the create schema when dates = "${dates}"`, async () => {
+    const config = await loadConfig({ config: resolve(fixtureDir, 'airtypes.config.toml'), cwd: fixtureDir });
+    const [file] = (await generate({ ...config, dates })).files;
+    const [since, meeting] =
+      dates === 'date'
+        ? ["new Date('2024-03-01T00:00:00.000Z')", "new Date('2024-03-04T09:30:00.000Z')"]
+        : ["'2024-03-01'", "'2024-03-04T09:30:00.000Z'"];
+    const path = writeGenerated(
+      `${file.contents}\nconst created: CrmClientsCreate = { name: 'Acme', clientSince: ${since}, nextMeeting: ${meeting} };\nexport const encoded = CrmClientsCreateSchema.parse(created);\n`,
+    );
+
+    assert.deepEqual(typeErrors(path), []);
+    const { encoded } = (await import(pathToFileURL(path).href)) as { encoded: unknown };
+    assert.deepEqual(encoded, { name: 'Acme', clientSince: '2024-03-01', nextMeeting: '2024-03-04T09:30:00.000Z' });
+  });
+}
+
+type FormulaBuilder = {
+  eq: (field: string, value: unknown) => FormulaBuilder;
+  gt: (field: string, value: unknown) => FormulaBuilder;
+  lt: (field: string, value: unknown) => FormulaBuilder;
+  contains: (field: string, value: string) => FormulaBuilder;
+  isEmpty: (field: string) => FormulaBuilder;
+  isNotEmpty: (field: string) => FormulaBuilder;
+  and: (...conditions: FormulaBuilder[]) => FormulaBuilder;
+  or: (...conditions: FormulaBuilder[]) => FormulaBuilder;
+  not: () => FormulaBuilder;
+};
+
+void test('where() escapes names and values, nests conditions and leaves list fields out of comparisons', async () => {
+  const config = await loadConfig({ config: resolve(fixtureDir, 'airtypes.config.toml'), cwd: fixtureDir });
+  const table: AirtableTable = {
+    id: 'tblEvents0000001',
+    name: 'Events',
+    fields: [
+      { id: 'fldTitle00000001', name: 'Title "draft" \\ {v2}', type: 'singleLineText' },
+      { id: 'fldScore00000001', name: 'Score', type: 'number', options: { precision: 0 } },
+      {
+        id: 'fldTags000000001',
+        name: 'Tags',
+        type: 'multipleSelects',
+        options: { choices: [{ id: 'sel1', name: 'Urgent' }] },
+      },
+      {
+        id: 'fldClients000001',
+        name: 'Clients',
+        type: 'multipleRecordLinks',
+        options: { linkedTableId: 'tblClients000001' },
+      },
+    ],
+    views: [],
+  };
+  const [file] = (
+    await generate({ ...config, formulaBuilder: true }, { tables: [{ base: config.bases[0], tables: [table] }] })
+  ).files;
+  const path = writeGenerated(
+    [
+      file.contents,
+      '// @ts-expect-error multiple selects cannot be compared',
+      "where(crmEventsTable).eq('tags', 'Urgent');",
+      '// @ts-expect-error linked records cannot be compared',
+      "where(crmEventsTable).eq('clients', 'rec1');",
+      '',
+    ].join('\n'),
+  );
+
+  assert.deepEqual(typeErrors(path), []);
+  const generated = (await import(pathToFileURL(path).href)) as {
+    where: (table: unknown) => FormulaBuilder;
+    crmEventsTable: unknown;
+  };
+  const where = () => generated.where(generated.crmEventsTable);
+  assert.equal(
+    String(where().eq('titleDraftV2', 'Say "hi" \\ now')),
+    String.raw`{Title "draft" \\ {v2\}} = "Say \"hi\" \\ now"`,
+  );
+  assert.equal(
+    String(
+      where()
+        .isNotEmpty('tags')
+        .and(where().gt('score', 1).or(where().lt('score', 0), where().isEmpty('clients')).not()),
+    ),
+    'AND(NOT({Tags} = BLANK()), NOT(OR({Score} > 1, {Score} < 0, {Clients} = BLANK())))',
+  );
+  assert.equal(
+    String(where().contains('titleDraftV2', 'a').eq('score', 2)),
+    String.raw`AND(FIND("a", {Title "draft" \\ {v2\}}), {Score} = 2)`,
+  );
+});
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { test } from 'node:test';
+import { pathToFileURL } from 'node:url';
+import { generate } from '../src/generate.js';
+import { loadConfig } from '../src/index.js';
+
+type FieldKeyTable = { mappings: Record<string, string>; fieldNames: Record<string, string> };
+type FieldKeyModule = {
+  crmClientsTable: FieldKeyTable;
+  fromAirtableFields: (table: FieldKeyTable, fields: Record<string, unknown>) => Record<string, unknown>;
+  toAirtableFields: (
+    table: FieldKeyTable,
+    values: Record<string, unknown>,
+    keys?: 'id' | 'name',
+  ) => Record<string, unknown>;
+};
+
+const fixtureDir = resolve(import.meta.dirname, 'fixtures');
+const loadFixtureConfig = () => loadConfig({ config: resolve(fixtureDir, 'airtypes.config.toml'), cwd: fixtureDir });
+
+// `by_id_schema` comes from the config here, so this also covers its path to the render options.
+const fieldKeyModule = (async (): Promise<FieldKeyModule> => {
+  const [file] = (await generate({ ...(await loadFixtureConfig()), target: 'typescript', byIdSchema: true })).files;
+  const path = join(
+    mkdtempSync(resolve(import.meta.dirname, '../node_modules/.airtypes-field-keys-')),
+    'airtable-types.ts',
+  );
+  writeFileSync(path, file.contents, 'utf8');
+  return (await import(pathToFileURL(path).href)) as FieldKeyModule;
+})();
+
+const values = { name: 'Acme', clientSince: '2024-03-01', revenue: 1200 };
+
+void test('fromAirtableFields re-keys ID- and name-keyed payloads and drops unknown keys', async () => {
+  const { crmClientsTable, fromAirtableFields } = await fieldKeyModule;
+
+  assert.deepEqual(
+    fromAirtableFields(crmClientsTable, {
+      fldName000000001: 'Acme',
+      fldSince00000001: '2024-03-01',
+      fldRevenue000001: 1200,
+      fldUnknown000001: 'ignored',
+    }),
+    values,
+  );
+  assert.deepEqual(
+    fromAirtableFields(crmClientsTable, { Name: 'Acme', 'Client Since': '2024-03-01', Revenue: 1200, Nickname: 'x' }),
+    values,
+  );
+});
+
+void test('toAirtableFields keys by field ID or name and drops unknown and undefined properties', async () => {
+  const { crmClientsTable, toAirtableFields } = await fieldKeyModule;
+  const withExtras = { ...values, active: undefined, nickname: 'ignored' };
+
+  assert.deepEqual(toAirtableFields(crmClientsTable, withExtras), {
+    fldName000000001: 'Acme',
+    fldSince00000001: '2024-03-01',
+    fldRevenue000001: 1200,
+  });
+  assert.deepEqual(toAirtableFields(crmClientsTable, withExtras, 'name'), {
+    Name: 'Acme',
+    'Client Since': '2024-03-01',
+    Revenue: 1200,
+  });
+});
+
+void test('fromAirtableFields undoes toAirtableFields for both key kinds', async () => {
+  const { crmClientsTable, fromAirtableFields, toAirtableFields } = await fieldKeyModule;
+
+  for (const keys of ['id', 'name'] as const) {
+    assert.deepEqual(
+      fromAirtableFields(crmClientsTable, toAirtableFields(crmClientsTable, values, keys)),
+      values,
+      keys,
+    );
+  }
+});
+
+void test('--by-id-schema overrides by_id_schema in the config', async () => {
+  const config = { ...(await loadFixtureConfig()), byIdSchema: true };
+
+  assert.match((await generate(config)).files[0].contents, /export const CrmClientsByIdSchema = /);
+  assert.doesNotMatch(
+    (await generate(config, { includeByIdSchema: false })).files[0].contents,
+    /CrmClientsByIdSchema|fromAirtableFields/,
+  );
+});
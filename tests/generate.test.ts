@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, relative, resolve } from 'node:path';
+import { test } from 'node:test';
+import { type GenerateOptions, generate } from '../src/generate.js';
+import { loadConfig } from '../src/index.js';
+import type { ParsedConfig } from '../src/types.js';
+
+// Generates from the snapshot in tests/fixtures and compares every output file with tests/fixtures/expected.
+// Run with UPDATE_EXPECTED=1 to rewrite the expected files after an intended output change.
+const fixtureDir = resolve(import.meta.dirname, 'fixtures');
+const expectedDir = resolve(fixtureDir, 'expected');
+
+const loadFixtureConfig = (): Promise<ParsedConfig> =>
+  loadConfig({ config: resolve(fixtureDir, 'airtypes.config.toml'), cwd: fixtureDir });
+
+const cases: Array<{ name: string; config?: Partial<ParsedConfig>; options?: GenerateOptions }> = [
+  { name: 'zod' },
+  { name: 'valibot', config: { target: 'valibot' } },
+  { name: 'arktype', config: { target: 'arktype' } },
+  { name: 'typescript', config: { target: 'typescript' } },
+  { name: 'zod-dates', config: { dates: 'date' } },
+  { name: 'zod-minimal', options: { includeLinks: false, includeRecordSchema: false, includeWriteSchema: false } },
+  {
+    name: 'zod-extras',
+    config: { client: true, formulaBuilder: true, emitViews: true },
+    options: { includeByIdSchema: true },
+  },
+  { name: 'split', config: { outputMode: 'split' } },
+  { name: 'jsonschema', config: { formats: ['jsonschema'] } },
+];
+
+for (const { name, config: overrides, options } of cases) {
+  void test(`generates ${name} output from the snapshot`, async () => {
+    const config = { ...(await loadFixtureConfig()), ...overrides };
+    const result = await generate(config, options);
+
+    // The fixture's "#" autoNumber field has no usable identifier characters.
+    assert.deepEqual(
+      result.diagnostics.map((diagnostic) => diagnostic.message),
+      [
+        'Invalid identifier "#" contains no valid starting character after sanitization. Using default identifier "invalidIdentifier1".',
+      ],
+    );
+    assert.ok(result.files.length > 0);
+    for (const file of result.files) {
+      const expectedPath = resolve(expectedDir, name, `${relative(resolve(fixtureDir, 'out'), file.path)}.snap`);
+      if (process.env.UPDATE_EXPECTED) {
+        mkdirSync(dirname(expectedPath), { recursive: true });
+        writeFileSync(expectedPath, file.contents, 'utf8');
+        continue;
+      }
+      assert.ok(existsSync(expectedPath), `missing expected output ${expectedPath}`);
+      assert.equal(file.contents, readFileSync(expectedPath, 'utf8'), `${relative(fixtureDir, expectedPath)} differs`);
+    }
+  });
+}
+
+void test('JSON Schema describes plugin schemas and keeps links to filtered tables local', async () => {
+  const config: ParsedConfig = {
+    ...(await loadFixtureConfig()),
+    formats: ['jsonschema'],
+    plugins: [
+      {
+        filterTable: (table) => table.name !== 'Projects',
+        fieldSchema: ({ field }) => (field.name === 'Name' ? { expression: 'LegalNameSchema' } : undefined),
+      },
+    ],
+  };
+  const [file] = (await generate(config)).files;
+  const schema = JSON.parse(file.contents) as { properties: Record<string, Record<string, unknown>> };
+
+  assert.equal(
+    schema.properties.name.description,
+    'Legal name\n\nValidated by a plugin schema that JSON Schema cannot express: LegalNameSchema',
+  );
+  assert.deepEqual(schema.properties.projects.items, { $ref: '#/$defs/recordId' });
+});
+
+void test('rejects overrides for tables the base does not have', async () => {
+  const config = await loadFixtureConfig();
+  const base = { ...config.bases[0], overrides: { Clients: {}, Invoices: { typeName: 'Invoice' } } };
+  await assert.rejects(
+    generate({ ...config, bases: [base] }),
+    new Error('Unknown override table "Invoices" for base "crm" (appCRM000000001)'),
+  );
+});
+
+void test('generation is deterministic', async () => {
+  const config = await loadFixtureConfig();
+  const [first, second] = [await generate(config), await generate(config)];
+  assert.deepEqual(
+    first.files.map((file) => file.contents),
+    second.files.map((file) => file.contents),
+  );
+});
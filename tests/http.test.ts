@@ -0,0 +1,220 @@
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { type AddressInfo, connect, type Socket } from 'node:net';
+import { test } from 'node:test';
+import { fetchBaseSchema, listBases } from '../src/airtable.js';
+import {
+  AirtableAuthError,
+  AirtableNetworkError,
+  AirtableNotFoundError,
+  AirtablePermissionError,
+  AirtableRateLimitError,
+  AirtableResponseError,
+} from '../src/errors.js';
+import { createHttpClient, type HttpClientOptions } from '../src/http.js';
+
+type Handler = (request: IncomingMessage, response: ServerResponse, hit: number) => void;
+
+// Serves `handler` on a free port and reports how many requests reached it.
+const withServer = async (
+  handler: Handler,
+  run: (options: Pick<HttpClientOptions, 'apiKey' | 'apiUrl'>) => Promise<void>,
+): Promise<number> => {
+  let hits = 0;
+  const server = createServer((request, response) => {
+    hits += 1;
+    handler(request, response, hits);
+  });
+  await new Promise<void>((resolveListen) => server.listen(0, '127.0.0.1', resolveListen));
+  const { port } = server.address() as AddressInfo;
+  try {
+    await run({ apiKey: 'key', apiUrl: `http://127.0.0.1:${port}` });
+  } finally {
+    server.closeAllConnections();
+    await new Promise((resolveClose) => server.close(resolveClose));
+  }
+  return hits;
+};
+
+const sendTables = (response: ServerResponse): void => {
+  response.writeHead(200, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify({ tables: [] }));
+};
+
+void test('waits for Retry-After on 429 and then succeeds', async () => {
+  const hits = await withServer(
+    (_request, response, hit) => {
+      if (hit === 1) {
+        response.writeHead(429, { 'Retry-After': '0' }).end();
+        return;
+      }
+      sendTables(response);
+    },
+    async (options) => {
+      assert.deepEqual(await fetchBaseSchema('appTest', createHttpClient({ ...options, maxRetries: 2 })), []);
+    },
+  );
+  assert.equal(hits, 2);
+});
+
+void test('listBases follows the offset token across pages', async () => {
+  const paths: Array<string | undefined> = [];
+  const hits = await withServer(
+    (request, response) => {
+      paths.push(request.url);
+      const page = request.url?.endsWith('?offset=itr%2F2')
+        ? { bases: [{ id: 'appSecond', name: 'Second', permissionLevel: 'read' }] }
+        : { bases: [{ id: 'appFirst', name: 'First', permissionLevel: 'create' }], offset: 'itr/2' };
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(page));
+    },
+    async (options) => {
+      const bases = await listBases(createHttpClient(options));
+      assert.deepEqual(
+        bases.map((base) => base.id),
+        ['appFirst', 'appSecond'],
+      );
+    },
+  );
+  assert.equal(hits, 2);
+  assert.deepEqual(paths, ['/v0/meta/bases', '/v0/meta/bases?offset=itr%2F2']);
+});
+
+void test('backs off on 429 without Retry-After and reports a rate limit once retries run out', async () => {
+  const hits = await withServer(
+    (_request, response) => {
+      response.writeHead(429).end();
+    },
+    async (options) => {
+      await assert.rejects(
+        fetchBaseSchema('appTest', createHttpClient({ ...options, maxRetries: 1 })),
+        AirtableRateLimitError,
+      );
+    },
+  );
+  assert.equal(hits, 2);
+});
+
+void test('retries 5xx responses up to max_retries', async () => {
+  const hits = await withServer(
+    (_request, response) => {
+      response.writeHead(503, { 'Retry-After': '0' }).end('unavailable');
+    },
+    async (options) => {
+      await assert.rejects(fetchBaseSchema('appTest', createHttpClient({ ...options, maxRetries: 2 })), (error) => {
+        assert.ok(error instanceof AirtableResponseError);
+        assert.equal(error.status, 503);
+        return true;
+      });
+    },
+  );
+  assert.equal(hits, 3);
+});
+
+void test('does not retry client errors', async () => {
+  const hits = await withServer(
+    (_request, response) => {
+      response.writeHead(422).end('bad request');
+    },
+    async (options) => {
+      await assert.rejects(
+        fetchBaseSchema('appTest', createHttpClient({ ...options, maxRetries: 3 })),
+        AirtableResponseError,
+      );
+    },
+  );
+  assert.equal(hits, 1);
+});
+
+void test('times out slow responses and retries them', async () => {
+  const hits = await withServer(
+    () => {
+      // Never answers; the client's timeout has to end the request.
+    },
+    async (options) => {
+      await assert.rejects(
+        fetchBaseSchema('appTest', createHttpClient({ ...options, timeoutSeconds: 0.1, maxRetries: 1 })),
+        (error) => {
+          assert.ok(error instanceof AirtableNetworkError);
+          assert.match(error.detail, /timed out after 0\.1s/);
+          return true;
+        },
+      );
+    },
+  );
+  assert.equal(hits, 2);
+});
+
+void test('tunnels requests through HTTP_PROXY with CONNECT', async () => {
+  const tunnels: string[] = [];
+  const sockets: Socket[] = [];
+  const proxy = createServer();
+  proxy.on('connect', (request, clientSocket: Socket, head) => {
+    tunnels.push(request.url ?? '');
+    const [host, port] = (request.url ?? '').split(':');
+    const upstream = connect(Number(port), host, () => {
+      clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      upstream.write(head);
+      upstream.pipe(clientSocket).pipe(upstream);
+    });
+    sockets.push(clientSocket, upstream);
+  });
+  await new Promise<void>((resolveListen) => proxy.listen(0, '127.0.0.1', resolveListen));
+  const proxyVars = ['HTTP_PROXY', 'http_proxy', 'HTTPS_PROXY', 'https_proxy', 'NO_PROXY', 'no_proxy'];
+  const saved = proxyVars.map((name) => [name, process.env[name]] as const);
+  for (const name of proxyVars) {
+    delete process.env[name];
+  }
+  process.env.HTTP_PROXY = `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`;
+
+  try {
+    const hits = await withServer(
+      (_request, response) => sendTables(response),
+      async (options) => {
+        assert.deepEqual(await fetchBaseSchema('appTest', createHttpClient(options)), []);
+        assert.deepEqual(tunnels, [new URL(options.apiUrl ?? '').host]);
+      },
+    );
+    assert.equal(hits, 1);
+  } finally {
+    for (const [name, value] of saved) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    for (const socket of sockets) {
+      socket.destroy();
+    }
+    await new Promise((resolveClose) => proxy.close(resolveClose));
+  }
+});
+
+const errorClasses = [
+  [401, AirtableAuthError],
+  [403, AirtablePermissionError],
+  [404, AirtableNotFoundError],
+  [422, AirtableResponseError],
+  [429, AirtableRateLimitError],
+  [500, AirtableResponseError],
+  [503, AirtableResponseError],
+] as const;
+
+for (const [status, errorClass] of errorClasses) {
+  void test(`maps ${status} responses to ${errorClass.name}`, async () => {
+    await withServer(
+      (_request, response) => {
+        response.writeHead(status, { 'Retry-After': '0' }).end('{}');
+      },
+      async (options) => {
+        await assert.rejects(fetchBaseSchema('appTest', createHttpClient({ ...options, maxRetries: 0 })), (error) => {
+          assert.ok(error instanceof errorClass);
+          assert.equal(error.status, status);
+          assert.equal(error.baseId, 'appTest');
+          return true;
+        });
+      },
+    );
+  });
+}
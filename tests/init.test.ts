@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { test } from 'node:test';
+import type { HttpClient } from '../src/http.js';
+import { renderConfigFile, resolveConfigTarget, runInit } from '../src/init.js';
+
+const config = { output: 'airtable-types.ts', bases: [{ name: 'crm', base_id: 'appCRM000000001' }] };
+
+const projectWith = (packageJson?: object): string => {
+  const dir = mkdtempSync(join(tmpdir(), 'airtypes-init-'));
+  if (packageJson) {
+    writeFileSync(join(dir, 'package.json'), JSON.stringify(packageJson));
+  }
+  return dir;
+};
+
+const renderAt = (cwd: string, path: string): string => {
+  const target = resolveConfigTarget({ cwd, path });
+  return renderConfigFile(config, target.format, target.commonJs);
+};
+
+void test('a .js config follows the package type', () => {
+  assert.match(renderAt(projectWith({ name: 'app' }), 'airtypes.config.js'), /^module\.exports = \{/);
+  assert.match(renderAt(projectWith({ type: 'commonjs' }), 'airtypes.config.js'), /^module\.exports = \{/);
+  assert.match(renderAt(projectWith({ type: 'module' }), 'airtypes.config.js'), /^export default \{/);
+});
+
+void test('.mjs and .cjs configs keep their own module format', () => {
+  const cwd = projectWith({ type: 'module' });
+  assert.match(renderAt(cwd, 'airtypes.config.mjs'), /^export default \{/);
+  assert.match(renderAt(cwd, 'airtypes.config.cjs'), /^module\.exports = \{/);
+  assert.match(renderConfigFile(config, resolveConfigTarget({ cwd, format: 'js' }).format), /^export default \{/);
+});
+
+// Answers the bases and tables endpoints for a single base, recording every path requested.
+const fakeClient = (paths: string[]): HttpClient => ({
+  apiUrl: 'https://api.airtable.com',
+  request: async (path) => {
+    paths.push(path);
+    const body = path.startsWith('/v0/meta/bases/')
+      ? { tables: [{ id: 'tblClients000001', name: 'Clients', primaryFieldId: 'fldName000000001', fields: [] }] }
+      : { bases: [{ id: 'appCRM000000001', name: 'CRM' }] };
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+  },
+});
+
+void test('refuses to overwrite an existing config unless forced', async () => {
+  const cwd = projectWith({ name: 'app' });
+  const path = join(cwd, 'airtypes.config.toml');
+  writeFileSync(path, '# hand-written\n');
+  const paths: string[] = [];
+  const options = { cwd, apiKeyEnv: 'AIRTABLE_API_KEY', force: false };
+
+  await assert.rejects(
+    runInit(options, { client: fakeClient(paths) }),
+    new Error(`${path} already exists. Pass --force to overwrite it.`),
+  );
+  assert.equal(readFileSync(path, 'utf8'), '# hand-written\n');
+  assert.deepEqual(paths, []);
+
+  const result = await runInit({ ...options, force: true }, { client: fakeClient(paths) });
+  assert.equal(result.configPath, path);
+  assert.match(readFileSync(path, 'utf8'), /^base_id = "appCRM000000001"$/m);
+  assert.deepEqual(paths, ['/v0/meta/bases', '/v0/meta/bases/appCRM000000001/tables']);
+});
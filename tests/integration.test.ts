@@ -38,7 +38,7 @@ const run = async (): Promise<void> => {
     [
       '--import',
       'tsx',
-      resolve(rootDir, 'src', 'index.ts'),
+      resolve(rootDir, 'src', 'cli.ts'),
       'generate',
       '--config-file',
       configPath,
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { test } from 'node:test';
+import { checkOutput, type GenerateOptions, generate } from '../src/generate.js';
+import { loadConfig } from '../src/index.js';
+import { renderLockfile } from '../src/lockfile.js';
+import { readSnapshot } from '../src/snapshot.js';
+import type { AirtableTable, ParsedConfig } from '../src/types.js';
+
+const fixtureDir = resolve(import.meta.dirname, 'fixtures');
+
+const tasks: AirtableTable = {
+  id: 'tblTasks00000001',
+  name: 'Tasks',
+  fields: [
+    { id: 'fldHash000000001', name: '#', type: 'autoNumber' },
+    { id: 'fldPercent000001', name: '%', type: 'number' },
+  ],
+  views: [],
+};
+
+const configWithLockfile = async (lock?: Record<string, string>): Promise<ParsedConfig> => {
+  const config = await loadConfig({ config: resolve(fixtureDir, 'airtypes.config.toml'), cwd: fixtureDir });
+  const lockfile = join(mkdtempSync(join(tmpdir(), 'airtypes-lock-')), 'airtypes.lock.json');
+  if (lock) {
+    const tables = { [tasks.id]: { typeName: 'CrmTask', constName: 'crmTasksTable', fields: lock } };
+    writeFileSync(lockfile, renderLockfile({ version: 1, bases: { [config.bases[0].baseId]: { tables } } }));
+  }
+  return { ...config, lockfile };
+};
+
+void test('the lockfile is opt-in', async () => {
+  const dir = mkdtempSync(join(tmpdir(), 'airtypes-config-'));
+  const bases = 'snapshot_dir = "snapshots"\n\n[[bases]]\nname = "crm"\nbase_id = "appCRM000000001"\n';
+  writeFileSync(join(dir, 'without.toml'), bases);
+  writeFileSync(join(dir, 'with.toml'), `lockfile = true\n${bases}`);
+
+  assert.equal((await loadConfig({ config: join(dir, 'without.toml'), cwd: dir })).lockfile, undefined);
+  assert.equal(
+    (await loadConfig({ config: join(dir, 'with.toml'), cwd: dir })).lockfile,
+    join(dir, 'airtypes.lock.json'),
+  );
+});
+
+void test('a fresh name that loses to the lockfile is not reserved', async () => {
+  const config = await configWithLockfile({ fldHash000000001: 'number' });
+  const { lockfile } = await generate(
+    { ...config, bases: config.bases.slice(0, 1) },
+    {
+      tables: [{ base: config.bases[0], tables: [tasks] }],
+    },
+  );
+  const fields = JSON.parse(lockfile?.contents ?? '{}').bases.appCRM000000001.tables[tasks.id].fields;
+
+  // "%" takes invalidIdentifier1 because "#" kept its pinned name instead.
+  assert.deepEqual(fields, { fldHash000000001: 'number', fldPercent000001: 'invalidIdentifier1' });
+});
+
+void test('checkOutput reports a missing or outdated lockfile', async () => {
+  const config = await configWithLockfile();
+  const result = await generate(config, { tables: [{ base: config.bases[0], tables: [tasks] }] });
+  const check = checkOutput(result);
+
+  assert.equal(check.upToDate, false);
+  assert.equal(check.staleLockfile, config.lockfile);
+});
+
+// The snapshot's Clients table, renamed to Customers with its Status field renamed to Stage.
+const renameClients = async () => {
+  const config = await configWithLockfile();
+  const base = { ...config.bases[0], namedViews: { tblClients000001: { Active: 'viwActive0000001' } } };
+  const clients = readSnapshot(resolve(fixtureDir, 'snapshots'), base).find(({ id }) => id === 'tblClients000001');
+  assert.ok(clients);
+  const customers: AirtableTable = {
+    ...clients,
+    name: 'Customers',
+    fields: clients.fields.map((field) => (field.id === 'fldStatus0000001' ? { ...field, name: 'Stage' } : field)),
+  };
+  // Generates like the CLI would, writing the lockfile for the next run.
+  const run = async (table: AirtableTable, options: GenerateOptions = {}): Promise<string> => {
+    const result = await generate({ ...config, bases: [base] }, { ...options, tables: [{ base, tables: [table] }] });
+    writeFileSync(config.lockfile ?? '', result.lockfile?.contents ?? '');
+    return result.files[0].contents;
+  };
+  await run(clients);
+  return { run, customers, readLock: () => readFileSync(config.lockfile ?? '', 'utf8') };
+};
+
+void test('views and choice consts keep their pinned names when a table or field is renamed', async () => {
+  const { run, customers } = await renameClients();
+
+  const output = await run(customers);
+
+  assert.match(output, /export const crmClientsTable = /);
+  assert.match(output, /export const crmClientsViews = /);
+  assert.match(output, /export const crmClientsStatusChoices = /);
+  assert.doesNotMatch(output, /crmCustomers|CrmCustomers|\bstage:/);
+});
+
+void test('--rename accepts new names without aliases', async () => {
+  const { run, customers, readLock } = await renameClients();
+
+  const output = await run(customers, { rename: true });
+
+  assert.match(output, /export const crmCustomersStageChoices = /);
+  assert.doesNotMatch(output, /@deprecated|crmClients/);
+  assert.match(readLock(), /"constName": "crmCustomersTable"/);
+  assert.match(readLock(), /"fldStatus0000001": "stage"/);
+});
+
+void test('--deprecated-aliases keeps the old names for one run', async () => {
+  const { run, customers, readLock } = await renameClients();
+
+  const renamed = await run(customers, { rename: true, deprecatedAliases: true });
+
+  for (const alias of [
+    'export type CrmClients = CrmCustomers;',
+    'export const CrmClientsSchema = CrmCustomersSchema;',
+    'export const crmClientsTable = crmCustomersTable;',
+    'export const crmClientsViews = crmCustomersViews;',
+    'export const crmClientsStatusChoices = crmCustomersStageChoices;',
+  ]) {
+    assert.ok(renamed.includes(alias), `missing alias ${alias}`);
+  }
+  assert.match(renamed, /export const crmCustomersRenamedFields = \{\n {2}status: 'stage',\n\} as const;/);
+  assert.doesNotMatch(readLock(), /aliases/);
+
+  const next = await run(customers);
+
+  assert.doesNotMatch(next, /@deprecated|crmClients/);
+});
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { test } from 'node:test';
+import { GENERATED_HEADER, GENERATED_MARKER, removeStaleFiles } from '../src/output.js';
+
+const writeFile = (path: string, contents: string): string => {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, contents);
+  return path;
+};
+
+void test('removeStaleFiles removes generated files that are no longer emitted', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'airtypes-output-'));
+  const current = writeFile(join(dir, 'crm', 'clients.ts'), `${GENERATED_HEADER}\nexport {};\n`);
+  const staleModule = writeFile(join(dir, 'old-base', 'tasks.ts'), `${GENERATED_HEADER}\nexport {};\n`);
+  const staleSchema = writeFile(
+    join(dir, 'crm', 'tasks.schema.json'),
+    JSON.stringify({ $comment: GENERATED_MARKER, type: 'object' }),
+  );
+
+  const removed = removeStaleFiles(dir, [{ path: current, contents: '' }]);
+
+  assert.deepEqual(removed.sort(), [staleSchema, staleModule].sort());
+  assert.equal(existsSync(current), true);
+  assert.equal(existsSync(staleModule), false);
+  assert.equal(existsSync(staleSchema), false);
+  // Directories emptied by the removal go too.
+  assert.equal(existsSync(join(dir, 'old-base')), false);
+  assert.equal(existsSync(dir), true);
+});
+
+void test('removeStaleFiles keeps files without the generated header', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'airtypes-output-'));
+  const handWritten = writeFile(join(dir, 'helpers.ts'), 'export const helper = 1;\n');
+  const mentionsMarker = writeFile(join(dir, 'notes.ts'), `// ${GENERATED_MARKER}\nexport {};\n`);
+  const schema = writeFile(join(dir, 'custom.schema.json'), JSON.stringify({ type: 'object' }));
+  const brokenJson = writeFile(join(dir, 'broken.schema.json'), '{');
+
+  assert.deepEqual(removeStaleFiles(dir, []), []);
+  for (const path of [handWritten, mentionsMarker, schema, brokenJson]) {
+    assert.equal(existsSync(path), true, `${path} was removed`);
+  }
+});
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { resolve } from 'node:path';
+import { test } from 'node:test';
+import { generate } from '../src/generate.js';
+import { loadConfig } from '../src/index.js';
+import type { TableOverride } from '../src/types.js';
+
+const fixtureDir = resolve(import.meta.dirname, 'fixtures');
+
+const generateWith = async (overrides: Record<string, TableOverride>): Promise<string> => {
+  const config = await loadConfig({ config: resolve(fixtureDir, 'airtypes.config.toml'), cwd: fixtureDir });
+  const { files } = await generate({ ...config, bases: [{ ...config.bases[0], overrides }] });
+  return files[0].contents;
+};
+
+// Returns an exported declaration up to its first closing brace at column 0.
+const declaration = (contents: string, name: string): string => {
+  const start = contents.indexOf(`export const ${name} = `);
+  assert.notEqual(start, -1, `${name} is not exported`);
+  return contents.slice(start, contents.indexOf('\n}', start));
+};
+
+void test('field overrides rename a field and replace its schema, importing what it needs', async () => {
+  const contents = await generateWith({
+    Clients: {
+      fields: {
+        Name: { name: 'title', schema: 'SlugSchema', imports: ["import { SlugSchema } from './slug.js';"] },
+      },
+    },
+  });
+
+  assert.match(contents, /^import \{ SlugSchema \} from '\.\/slug\.js';$/m);
+  // The replaced schema keeps the field required, in the read and the write schemas alike.
+  assert.match(declaration(contents, 'CrmClientsSchema'), /^ {2}title: SlugSchema,$/m);
+  assert.match(declaration(contents, 'CrmClientsCreateSchema'), /^ {2}title: SlugSchema,$/m);
+  assert.match(
+    declaration(contents, 'crmClientsTable'),
+    /^ {4}title: 'fldName000000001', \/\/ Original field: "Name"$/m,
+  );
+  assert.match(contents, /requiredFields: \['title'\],/);
+  assert.doesNotMatch(declaration(contents, 'CrmClientsSchema'), /^ {2}name:/m);
+});
+
+void test('nullable overrides mark a field nullable, and can be keyed by field ID', async () => {
+  const contents = await generateWith({ Clients: { fields: { fldRevenue000001: { nullable: true } } } });
+
+  assert.match(declaration(contents, 'CrmClientsSchema'), /^ {2}revenue: z\.number\(\)\.nullable\(\)\.optional\(\),$/m);
+  assert.match(
+    declaration(contents, 'CrmClientsCreateSchema'),
+    /^ {2}revenue: z\.number\(\)\.nullable\(\)\.optional\(\),$/m,
+  );
+});
+
+void test('excluded fields are left out of every schema and mapping', async () => {
+  const contents = await generateWith({
+    Clients: { fields: { Owner: { exclude: true }, fldStatus0000001: { exclude: true } } },
+  });
+
+  for (const name of ['CrmClientsSchema', 'CrmClientsCreateSchema', 'crmClientsTable']) {
+    assert.doesNotMatch(declaration(contents, name), /^ +(owner|status):/m, name);
+  }
+  assert.doesNotMatch(contents, /crmClientsStatusChoices/);
+  assert.match(declaration(contents, 'CrmClientsSchema'), /^ {2}tags:/m);
+});
+
+void test('include_fields and exclude_fields patterns match field names and IDs', async () => {
+  const contents = await generateWith({
+    Clients: { excludeFields: ['Client*', 'fldLogo*', 'Project ?udgets'] },
+    Projects: { includeFields: ['Project Name', 'fldPhase*'] },
+  });
+  const clientFields = [...declaration(contents, 'CrmClientsSchema').matchAll(/^ {2}(\w+):/gm)].map(([, name]) => name);
+  const projectFields = [...declaration(contents, 'CrmProjectsSchema').matchAll(/^ {2}(\w+):/gm)].map(
+    ([, name]) => name,
+  );
+
+  assert.ok(clientFields.includes('name') && clientFields.includes('projects'));
+  for (const excluded of ['clientSince', 'logo', 'projectBudgets']) {
+    assert.ok(!clientFields.includes(excluded), excluded);
+  }
+  assert.deepEqual(projectFields, ['projectName', 'phase']);
+  assert.deepEqual(
+    [...declaration(contents, 'crmProjectsTable').matchAll(/^ {4}(\w+): 'fld/gm)].map(([, name]) => name),
+    ['projectName', 'phase'],
+  );
+});
+
+void test('rejects field overrides for fields the table does not have', async () => {
+  await assert.rejects(
+    generateWith({ Clients: { fields: { Nickname: { nullable: true } } } }),
+    new Error('Unknown override field "Nickname" for table "Clients" (tblClients000001)'),
+  );
+});
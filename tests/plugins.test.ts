@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { basename, resolve } from 'node:path';
+import { test } from 'node:test';
+import { generate } from '../src/generate.js';
+import { loadConfig } from '../src/index.js';
+import type { AirtypesPlugin, IdentifierContext } from '../src/types.js';
+
+const fixtureDir = resolve(import.meta.dirname, 'fixtures');
+
+const generateWith = async (plugins: AirtypesPlugin[], outputMode: 'single' | 'split' = 'single') => {
+  const config = await loadConfig({ config: resolve(fixtureDir, 'airtypes.config.toml'), cwd: fixtureDir });
+  return generate({ ...config, outputMode, plugins });
+};
+
+void test('fieldSchema hooks run in order, each seeing the spec left by the one before', async () => {
+  const seen: Array<string | undefined> = [];
+  const { files } = await generateWith([
+    {
+      fieldSchema: ({ field, spec }) => {
+        if (field.name !== 'Name') {
+          return null;
+        }
+        seen.push(spec?.kind);
+        return { expression: "z.string().brand<'Name'>()", imports: ["import { first } from './first.js';"] };
+      },
+    },
+    {
+      fieldSchema: ({ field, spec }) => {
+        if (field.name !== 'Name') {
+          return null;
+        }
+        seen.push(spec?.expression);
+        return {
+          expression: `${spec?.expression}.describe('name')`,
+          imports: ["import { second } from './second.js';"],
+        };
+      },
+    },
+  ]);
+  const [{ contents }] = files;
+
+  assert.deepEqual(seen, ['string', "z.string().brand<'Name'>()"]);
+  // Name stays required: the override keeps the optionality of the spec it replaces.
+  assert.match(contents, /^ {2}name: z\.string\(\)\.brand<'Name'>\(\)\.describe\('name'\),$/m);
+  assert.ok(
+    contents.indexOf("import { first } from './first.js';") < contents.indexOf("import { second } from './second.js';"),
+  );
+});
+
+void test('identifier hooks rename types, table consts and fields in order', async () => {
+  const calls: Array<{ name: string; kind: IdentifierContext['kind']; field?: string }> = [];
+  const { files } = await generateWith([
+    {
+      identifier: (name, context) => {
+        calls.push({ name, kind: context.kind, field: context.field?.name });
+        if (context.table.name !== 'Clients') {
+          return null;
+        }
+        return { type: 'Customer', table: 'customersTable', field: name === 'name' ? 'title' : null }[context.kind];
+      },
+    },
+    { identifier: (name, context) => (context.kind === 'type' ? `${name}Row` : null) },
+  ]);
+  const [{ contents }] = files;
+
+  assert.deepEqual(
+    calls.filter((call) => call.kind !== 'field'),
+    [
+      { name: 'crmClientsTable', kind: 'table', field: undefined },
+      { name: 'CrmClients', kind: 'type', field: undefined },
+      { name: 'crmProjectsTable', kind: 'table', field: undefined },
+      { name: 'CrmProjects', kind: 'type', field: undefined },
+    ],
+  );
+  assert.ok(
+    calls.some((call) => call.kind === 'field' && call.name === 'clientSince' && call.field === 'Client Since'),
+  );
+  assert.match(contents, /export type CustomerRow = /);
+  assert.match(contents, /export const customersTable = /);
+  assert.match(contents, /^ {4}title: 'fldName000000001',/m);
+  assert.match(contents, /export type CrmProjectsRow = /);
+});
+
+void test('filterTable and filterField drop tables and fields before generation', async () => {
+  const { files, bases } = await generateWith([
+    { filterTable: (table) => table.name !== 'Projects' },
+    { filterField: (field, table) => !(table.name === 'Clients' && field.name === 'Revenue') },
+  ]);
+  const [{ contents }] = files;
+
+  assert.deepEqual(
+    bases[0].tables.map((table) => table.name),
+    ['Clients'],
+  );
+  assert.doesNotMatch(contents, /CrmProjects|revenue/);
+  assert.match(contents, /export type CrmClients = /);
+});
+
+void test('transformOutput runs on every written file, plugins in order', async () => {
+  const { files } = await generateWith(
+    [
+      { transformOutput: ({ path, contents }) => `${contents}// first: ${basename(path)}\n` },
+      { transformOutput: ({ contents }) => `${contents}// second\n` },
+    ],
+    'split',
+  );
+
+  assert.ok(files.length > 3);
+  for (const file of files) {
+    assert.ok(file.contents.endsWith(`// first: ${basename(file.path)}\n// second\n`), file.path);
+  }
+});
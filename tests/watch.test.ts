@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createWatchRun } from '../src/watch.js';
+
+void test('a failed run is retried on the next poll of the same schema', async () => {
+  const applied: Array<{ state: string; previous: string | undefined }> = [];
+  let fail = true;
+  let unchanged = 0;
+  const run = createWatchRun<string>({
+    load: async () => ({ state: 'schema-a', hash: 'a' }),
+    apply: async (state, previous) => {
+      if (fail) {
+        throw new Error('generate failed');
+      }
+      applied.push({ state, previous });
+    },
+    onUnchanged: () => {
+      unchanged += 1;
+    },
+  });
+
+  await assert.rejects(run('initial'), /generate failed/);
+  fail = false;
+  await run('poll');
+  await run('poll');
+
+  assert.deepEqual(applied, [{ state: 'schema-a', previous: undefined }]);
+  assert.equal(unchanged, 1);
+});
+
+void test('passes the last applied state when the schema changes', async () => {
+  const hashes = ['a', 'a', 'b'];
+  const previous: Array<string | undefined> = [];
+  const run = createWatchRun<string>({
+    load: async () => {
+      const hash = hashes.shift() ?? 'b';
+      return { state: `schema-${hash}`, hash };
+    },
+    apply: async (_state, last) => {
+      previous.push(last);
+    },
+    onUnchanged: () => {},
+  });
+
+  await run('initial');
+  await run('config');
+  await run('poll');
+
+  assert.deepEqual(previous, [undefined, undefined, 'schema-a']);
+});